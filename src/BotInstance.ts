@@ -0,0 +1,112 @@
+import { Config, ConfigError, ConfigProvider, Effect, Either, Redacted } from "effect"
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * A bot hosted in the process next to other bots
+ */
+export interface BotInstance {
+  /** The name of the bot, annotated on its logs and used as prefix of its settings */
+  readonly name: string
+  /** The Telegram Bot API token of the bot */
+  readonly token: Redacted.Redacted
+}
+
+/**
+ * The bots to host, read from TELEGRAM_BOTS as a comma-separated list of name:token
+ */
+export const BotInstancesConfig: Config.Config<Array<BotInstance>> = Config.array(
+  Config.string(),
+  "TELEGRAM_BOTS"
+).pipe(
+  Config.mapOrFail((entries) =>
+    Either.gen(function*() {
+      const bots: Array<BotInstance> = []
+      for (const entry of entries) {
+        // Tokens contain a colon themselves, only the first one separates the name
+        const separator = entry.indexOf(":")
+        const name = entry.slice(0, separator).trim()
+        const token = entry.slice(separator + 1).trim()
+        if (separator === -1 || !/^[A-Za-z0-9_]+$/.test(name) || token === "") {
+          return yield* Either.left(
+            ConfigError.InvalidData(["TELEGRAM_BOTS"], `Expected name:token with a name of A-Z, a-z, 0-9 and _`)
+          )
+        }
+        if (bots.some((bot) => bot.name === name)) {
+          return yield* Either.left(ConfigError.InvalidData(["TELEGRAM_BOTS"], `Duplicate bot name ${name}`))
+        }
+        bots.push({ name, token: Redacted.make(token) })
+      }
+      return bots
+    })
+  )
+)
+
+// Settings which bots cannot share, they would overwrite each other's offset, fail to listen on the same
+// port or register the same webhook
+const perBotSettings: ReadonlyArray<string> = ["TELEGRAM_OFFSET_FILE", "TELEGRAM_WEBHOOK_PORT", "TELEGRAM_WEBHOOK_URL"]
+
+/**
+ * Settings of a bot are read with its upper-cased name as prefix first, e.g.
+ * SHOP_TELEGRAM_RETRY_ATTEMPTS, falling back to the unprefixed settings shared
+ * by every bot. The token always comes from the bot itself. The offset file
+ * and the webhook port and URL must be prefixed, reading them from the shared
+ * settings fails.
+ * @param bot The bot to read settings for
+ * @param provider The config provider to read from
+ * @returns The config provider of the bot
+ */
+export const makeBotInstanceConfigProvider = (bot: BotInstance, provider: ConfigProvider.ConfigProvider) => {
+  const shared = provider.flattened
+  return ConfigProvider.fromMap(new Map([["TELEGRAM_BOT_TOKEN", Redacted.value(bot.token)]])).pipe(
+    ConfigProvider.orElse(() => ConfigProvider.nested(provider, bot.name.toUpperCase())),
+    ConfigProvider.orElse(() =>
+      ConfigProvider.fromFlat(ConfigProvider.makeFlat({
+        enumerateChildren: (path) => shared.enumerateChildren(path),
+        load: (path, config, split) => {
+          const key = path.join("_")
+          return perBotSettings.includes(key)
+            ? Effect.flatMap(
+              shared.load(path, config, split),
+              () =>
+                Effect.fail(
+                  ConfigError.InvalidData([...path], `Must be set per bot, e.g. ${bot.name.toUpperCase()}_${key}`)
+                )
+            )
+            : shared.load(path, config, split)
+        },
+        patch: shared.patch
+      }))
+    )
+  )
+}
+
+// =============================================================================
+// Running Bot Instances
+// =============================================================================
+
+/**
+ * Run a bot application as the given bot. The layers the application provides
+ * are built for this bot alone, so its caches, commands and forms are not
+ * shared with other bots, and every log line is annotated with the bot's name.
+ * @param bot The bot to run as
+ * @param app The application, providing its own services
+ */
+export const runBotInstance = <A, E, R>(bot: BotInstance, app: Effect.Effect<A, E, R>) =>
+  Effect.configProviderWith((provider) =>
+    app.pipe(
+      Effect.withConfigProvider(makeBotInstanceConfigProvider(bot, provider)),
+      Effect.annotateLogs("bot", bot.name)
+    )
+  )
+
+/**
+ * Run a bot application once for each bot side by side, until interrupted or
+ * one of them fails
+ * @param bots The bots to run
+ * @param app The application, providing its own services
+ */
+export const runBotInstances = <A, E, R>(bots: ReadonlyArray<BotInstance>, app: Effect.Effect<A, E, R>) =>
+  Effect.forEach(bots, (bot) => runBotInstance(bot, app), { concurrency: "unbounded", discard: true })
@@ -0,0 +1,143 @@
+import { Context, type Duration, Effect, Layer, Ref, TestClock } from "effect"
+import type { CallbackQuery, Chat, Message, TelegramBotApiRequestError, User } from "./TelegramBotApi.js"
+import { TelegramBotApiContext } from "./TelegramBotApi.js"
+import { MockTelegramServerContext, TestTelegramBotApiLive } from "./TestTelegramBotApi.js"
+import { UpdateHandlerContext } from "./UpdateHandler.js"
+import { UpdateHandlerAppLive } from "./UpdateHandlerApp.js"
+
+// =============================================================================
+// Bot Tester
+// =============================================================================
+
+/**
+ * A simulated user talking to the bot. Every action is delivered through
+ * getUpdates and the bot's dispatch pipeline before it returns.
+ */
+export interface BotTesterUser {
+  /** The chat the user talks to the bot in */
+  readonly chat: Chat
+  /** The simulated user */
+  readonly user: User
+  /**
+   * Send a command with its arguments
+   * @param command The command without the leading slash
+   * @param args The arguments of the command
+   */
+  command(command: string, ...args: Array<string>): Effect.Effect<Message, TelegramBotApiRequestError>
+  /**
+   * Edit a message sent earlier
+   * @param message The message to edit
+   * @param text The new text of the message
+   */
+  edits(message: Message, text: string): Effect.Effect<Message, TelegramBotApiRequestError>
+  /**
+   * Press an inline keyboard button
+   * @param message The message carrying the keyboard, usually a reply of the bot
+   * @param data The callback data of the button
+   */
+  presses(message: Message, data: string): Effect.Effect<CallbackQuery, TelegramBotApiRequestError>
+  /**
+   * Send a text message
+   * @param text The text of the message
+   */
+  sends(text: string): Effect.Effect<Message, TelegramBotApiRequestError>
+  /**
+   * Send a photo
+   * @param caption Optional caption of the photo
+   */
+  sendsPhoto(caption?: string): Effect.Effect<Message, TelegramBotApiRequestError>
+}
+
+/**
+ * Harness driving the bot through simulated users and collecting its replies
+ */
+export interface BotTester {
+  /**
+   * Advance the virtual time of the TestClock, running form timeouts and
+   * scheduled messages that fall due
+   * @param duration How far to move the clock
+   */
+  advance(duration: Duration.DurationInput): Effect.Effect<void>
+  /**
+   * Every message sent by the bot so far, in order, as last edited
+   */
+  readonly replies: Effect.Effect<Array<Message>>
+  /**
+   * The messages sent by the bot since the last call, in order
+   */
+  readonly takeReplies: Effect.Effect<Array<Message>>
+  /**
+   * Create a simulated user, in a private chat unless a chat is given
+   * @param options The user's fields and the chat to talk in
+   */
+  user(options?: { readonly chat?: Chat; readonly user?: Partial<User> }): BotTesterUser
+}
+
+export class BotTesterContext extends Context.Tag(
+  "@context/BotTester"
+)<BotTesterContext, BotTester>() {}
+
+export const BotTesterLive = Layer.effect(
+  BotTesterContext,
+  Effect.gen(function*() {
+    const server = yield* MockTelegramServerContext
+    const telegramBotApi = yield* TelegramBotApiContext
+    const updateHandler = yield* UpdateHandlerContext
+    const offsetRef = yield* Ref.make(0)
+    const takenRef = yield* Ref.make(0)
+    let nextUserId = 1
+
+    // Fetch pending updates like the poller does and run each through the pipeline
+    const deliver = Effect.gen(function*() {
+      const allowedUpdates = yield* updateHandler.allowedUpdates
+      const updates = yield* telegramBotApi.getUpdates({
+        allowed_updates: allowedUpdates,
+        offset: (yield* Ref.get(offsetRef)) + 1
+      })
+      for (const update of updates) {
+        yield* updateHandler.handle(update)
+        yield* Ref.update(offsetRef, (offset) => Math.max(offset, update.update_id))
+      }
+    })
+
+    const deliverAfter = <A>(push: Effect.Effect<A>) => Effect.tap(push, () => deliver)
+
+    return BotTesterContext.of({
+      advance: (duration) => TestClock.adjust(duration),
+      replies: server.sentMessages,
+      takeReplies: Effect.gen(function*() {
+        const replies = yield* server.sentMessages
+        const taken = yield* Ref.getAndSet(takenRef, replies.length)
+        return replies.slice(taken)
+      }),
+      user: (options) => {
+        const id = nextUserId++
+        const user: User = { first_name: `User ${id}`, id, is_bot: false, ...options?.user }
+        const chat: Chat = options?.chat ?? { first_name: user.first_name, id: user.id, type: "private" }
+        const sends = (text: string) => deliverAfter(server.pushMessage(text, { chat, from: user }))
+
+        return {
+          chat,
+          user,
+          command: (command, ...args) => sends([`/${command}`, ...args].join(" ")),
+          edits: (message, text) => deliverAfter(server.pushEditedMessage(message, text)),
+          presses: (message, data) => deliverAfter(server.pushCallbackQuery(data, message, user)),
+          sends,
+          sendsPhoto: (caption) =>
+            deliverAfter(server.pushMessage({
+              photo: [{ file_id: `photo-${id}`, file_unique_id: `photo-unique-${id}`, height: 1, width: 1 }],
+              ...caption !== undefined ? { caption } : {}
+            }, { chat, from: user }))
+        }
+      }
+    })
+  })
+)
+
+/**
+ * The bot's dispatch pipeline from the application, talking to the mock Telegram server
+ */
+export const BotTesterAppLive = BotTesterLive.pipe(
+  Layer.provideMerge(UpdateHandlerAppLive),
+  Layer.provideMerge(TestTelegramBotApiLive)
+)
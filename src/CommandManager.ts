@@ -1,33 +1,494 @@
-import { Context, Effect, Layer, Ref } from "effect"
+import { Config, Context, Data, Effect, Layer, Option, ParseResult, Ref, Schema, SchemaAST } from "effect"
 import { type FormManager, FormManagerContext } from "./Form.js"
+import { type Guard, type GuardManager, GuardManagerContext, type GuardSubject } from "./Guard.js"
 import { type HistoryCache, HistoryCacheContext } from "./HistoryCache.js"
 import { type MessageCache, MessageCacheContext } from "./MessageCache.js"
-import { type TelegramBotApi, TelegramBotApiContext, type TelegramBotApiError } from "./TelegramBotApi.js"
+import {
+  type BotCommandScope,
+  type Message,
+  type SetMyCommandsParams,
+  type TelegramBotApi,
+  TelegramBotApiContext,
+  type TelegramBotApiRequestError
+} from "./TelegramBotApi.js"
 
 // =============================================================================
-// Command Registry
+// Command Definitions
 // =============================================================================
 
-export type CommandHandler = (
-  chatId: number,
-  userId: number,
-  messageText: string,
-  args: Array<string>,
-  dependencies: {
-    formManager: FormManager
-    historyCache: HistoryCache
-    messageCache: MessageCache
-    telegramBotApi: TelegramBotApi
+/**
+ * Arguments of a command could not be parsed, the message explains why
+ */
+export class CommandArgsError extends Data.TaggedError("CommandArgsError")<{
+  readonly message: string
+}> {}
+
+/**
+ * The arguments of a command as typed by the user, before they are decoded by
+ * the command's schema. Rest arguments are arrays.
+ */
+export type CommandArgsEncoded = { readonly [name: string]: string | ReadonlyArray<string> | undefined }
+
+/**
+ * The chat, user and services a command runs with
+ */
+export interface CommandContext {
+  readonly chatId: number
+  /** The registered commands, in registration order */
+  readonly commands: ReadonlyArray<AnyCommand>
+  readonly formManager: FormManager
+  readonly guardManager: GuardManager
+  readonly historyCache: HistoryCache
+  /** The language of the user, as reported by Telegram */
+  readonly languageCode: string | undefined
+  /** The message of the command */
+  readonly message: Message
+  readonly messageCache: MessageCache
+  /** The whole text of the message, including the command */
+  readonly messageText: string
+  /** The user who sent the command, and the chat it was sent in, to check guards with */
+  readonly subject: GuardSubject
+  readonly telegramBotApi: TelegramBotApi
+  readonly userId: number
+}
+
+/**
+ * Handler of a command
+ * @param args The arguments decoded by the command's schema
+ * @param context The chat, user and services the command runs with
+ */
+export type CommandHandler<A> = (args: A, context: CommandContext) => Effect.Effect<void, TelegramBotApiRequestError>
+
+/**
+ * A positional argument of a command, derived from a field of its schema
+ */
+export interface CommandParameter {
+  /** The values the argument can take, when its schema is a literal or a union of literals */
+  readonly choices: ReadonlyArray<string> | undefined
+  readonly name: string
+  readonly optional: boolean
+  /** Takes all remaining arguments, when its schema is an array */
+  readonly rest: boolean
+}
+
+/**
+ * A command of any arguments, without its schema and handler, as listed in
+ * /help and the command menu
+ */
+export interface AnyCommand {
+  /** Other names running the command, without the leading / */
+  readonly aliases: ReadonlyArray<string>
+  readonly description: string
+  /** Translations of the description, by two-letter language code */
+  readonly descriptions: { readonly [languageCode: string]: string }
+  /** The rules a user must pass to run the command */
+  readonly guards: ReadonlyArray<Guard>
+  /** Left out of /help and of the command menu, while still being run */
+  readonly hidden: boolean
+  /** The name of the command, without the leading / */
+  readonly name: string
+  /** The positional arguments, in the order of the schema's fields */
+  readonly parameters: ReadonlyArray<CommandParameter>
+  /** The scopes of users whose command menu shows the command */
+  readonly scopes: ReadonlyArray<BotCommandScope>
+  /** The usage line replied with when the arguments are invalid, e.g. /photo <filename> [size] */
+  readonly usage: string
+}
+
+/**
+ * A command the bot understands, see defineCommand
+ */
+export interface Command<A, I extends CommandArgsEncoded = CommandArgsEncoded> extends AnyCommand {
+  /** The schema decoding the arguments */
+  readonly args: Schema.Schema<A, I>
+  readonly handler: CommandHandler<A>
+}
+
+// The members of a field's encoded type, without the undefined of an optional field
+const typesOf = (ast: SchemaAST.AST): Array<SchemaAST.AST> =>
+  SchemaAST.isUnion(ast)
+    ? ast.types.flatMap(typesOf)
+    : SchemaAST.isUndefinedKeyword(ast)
+    ? []
+    : [ast]
+
+const parametersOf = (ast: SchemaAST.AST): Array<CommandParameter> => {
+  const encoded = SchemaAST.encodedAST(ast)
+  if (!SchemaAST.isTypeLiteral(encoded)) {
+    return []
+  }
+  return encoded.propertySignatures.map((propertySignature) => {
+    const types = typesOf(propertySignature.type)
+    return {
+      choices: types.length > 0 && types.every(SchemaAST.isLiteral)
+        ? types.map((type) => String(type.literal))
+        : undefined,
+      name: String(propertySignature.name),
+      optional: propertySignature.isOptional,
+      rest: types.some(SchemaAST.isTupleType)
+    }
+  })
+}
+
+const formatParameter = ({ choices, name, optional, rest }: CommandParameter) => {
+  const label = (choices ? choices.join("|") : name) + (rest ? "..." : "")
+  return optional ? `[${label}]` : `<${label}>`
+}
+
+/**
+ * Define a command with typed arguments. The fields of the args struct are the
+ * positional arguments in order, each decoded from the string the user typed:
+ * - Schema.String for a word, or a "quoted string" with spaces
+ * - Schema.NumberFromString for a number
+ * - Schema.Literal("small", "large") for a choice
+ * - Schema.optional(...) for an argument that may be left out, only at the end
+ * - Schema.Array(Schema.String) as last field for the remaining arguments
+ * @example
+ * defineCommand({
+ *   name: "photo",
+ *   description: "Send a photo from cache",
+ *   args: Schema.Struct({ filename: Schema.String }),
+ *   handler: ({ filename }, { chatId, telegramBotApi }) => ...
+ * })
+ */
+export const defineCommand = <A, I extends CommandArgsEncoded>(definition: {
+  /** Other names running the command, e.g. p for photo */
+  readonly aliases?: ReadonlyArray<string>
+  readonly args: Schema.Schema<A, I>
+  readonly description: string
+  /** Translations of the description, by two-letter language code */
+  readonly descriptions?: { readonly [languageCode: string]: string }
+  /** The rules a user must pass to run the command, e.g. [adminOnly()], checked in order */
+  readonly guards?: ReadonlyArray<Guard>
+  readonly handler: CommandHandler<A>
+  /** Leave the command out of /help and of the command menu, defaults to false */
+  readonly hidden?: boolean
+  readonly name: string
+  /** The scopes of users whose command menu shows the command, defaults to every user */
+  readonly scopes?: ReadonlyArray<BotCommandScope>
+  /** Replaces the usage line generated from the arguments */
+  readonly usage?: string
+}): Command<A, I> => {
+  const name = definition.name.toLowerCase()
+  const parameters = parametersOf(definition.args.ast)
+  return {
+    aliases: (definition.aliases ?? []).map((alias) => alias.toLowerCase()),
+    args: definition.args,
+    description: definition.description,
+    descriptions: definition.descriptions ?? {},
+    guards: definition.guards ?? [],
+    handler: definition.handler,
+    hidden: definition.hidden ?? false,
+    name,
+    parameters,
+    scopes: definition.scopes ?? [{ type: "default" }],
+    usage: definition.usage ?? [`/${name}`, ...parameters.map(formatParameter)].join(" ")
+  }
+}
+
+/**
+ * Split the arguments of a command at whitespace, keeping "double" or 'single'
+ * quoted strings together without their quotes
+ * @param text The text following the command
+ * @returns The arguments
+ */
+export const splitCommandArgs = (text: string): Array<string> =>
+  Array.from(text.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g), (match) => match[1] ?? match[2] ?? match[3])
+
+/**
+ * A command found at the start of a message by its bot_command entity
+ */
+export interface BotCommandText {
+  /** The text following the command */
+  readonly argsText: string
+  /** The lower-cased name of the command, without the leading / */
+  readonly name: string
+  /** The bot the command is addressed to, as in /help@my_bot, if any */
+  readonly username: string | undefined
+}
+
+/**
+ * Find the command a message starts with. Telegram marks commands with a
+ * bot_command entity, so a message merely starting with / is not a command.
+ * @param message The message to find the command of
+ * @returns The command, or none when the message does not start with one
+ */
+export const parseBotCommand = (message: Message): Option.Option<BotCommandText> => {
+  const entity = message.entities?.find((entity) => entity.type === "bot_command" && entity.offset === 0)
+  if (!entity || message.text === undefined) {
+    return Option.none()
   }
-) => Effect.Effect<void, TelegramBotApiError>
+  const [name, username] = message.text.slice(1, entity.length).split("@")
+  return Option.some({
+    argsText: message.text.slice(entity.length).trim(),
+    name: name.toLowerCase(),
+    username
+  })
+}
+
+/**
+ * The payload of a deep link, a JSON value encoded as base64url, which fits the
+ * 64 characters of A-Z, a-z, 0-9, _ and - Telegram passes on to /start
+ * @param schema The schema of the payload's value
+ * @example
+ * defineCommand({
+ *   name: "start",
+ *   description: "Start interacting with the bot",
+ *   args: Schema.Struct({ referral: Schema.optional(deepLinkPayload(Schema.Struct({ from: Schema.Number }))) }),
+ *   handler: ({ referral }, context) => ...
+ * })
+ */
+export const deepLinkPayload = <A, I>(schema: Schema.Schema<A, I>): Schema.Schema<A, string> =>
+  Schema.String.pipe(
+    Schema.pattern(/^[A-Za-z0-9_-]{1,64}$/, { message: () => "Expected a deep link payload" }),
+    Schema.compose(Schema.StringFromBase64Url),
+    Schema.compose(Schema.parseJson(schema))
+  )
+
+/**
+ * Make a link opening the bot with a payload, passed to /start as argument. A
+ * startgroup link lets the user pick a group to add the bot to instead, where
+ * the bot receives /start@username with the payload.
+ * @param username The username of the bot
+ * @param schema The schema of the payload, see deepLinkPayload
+ * @param payload The value of the payload
+ * @param options Link to adding the bot to a group
+ * @returns The link, or a parse error when the payload is longer than 64 characters
+ */
+export const makeStartLink = <A, I>(
+  username: string,
+  schema: Schema.Schema<A, I>,
+  payload: NoInfer<A>,
+  options?: { readonly group?: boolean }
+): Effect.Effect<string, ParseResult.ParseError> =>
+  Schema.encode(deepLinkPayload(schema))(payload).pipe(
+    Effect.map((encoded) => `https://t.me/${username}?${options?.group ? "startgroup" : "start"}=${encoded}`)
+  )
+
+/**
+ * Parse the arguments of a command and decode them with its schema
+ * @param command The command to parse the arguments of
+ * @param text The text following the command
+ * @returns The decoded arguments, or an error explaining what is wrong with them
+ */
+export const parseCommandArgs = <A, I extends CommandArgsEncoded>(
+  command: Command<A, I>,
+  text: string
+): Effect.Effect<A, CommandArgsError> =>
+  Effect.gen(function*() {
+    const values = splitCommandArgs(text)
+    const encoded: Record<string, string | ReadonlyArray<string>> = {}
+    for (const parameter of command.parameters) {
+      const value = parameter.rest ? values.splice(0) : values.shift()
+      if (value === undefined || (parameter.rest && value.length === 0)) {
+        if (!parameter.optional) {
+          return yield* new CommandArgsError({ message: `Missing ${formatParameter(parameter)}` })
+        }
+        continue
+      }
+      encoded[parameter.name] = value
+    }
+    if (values.length > 0) {
+      return yield* new CommandArgsError({ message: `Unexpected argument: ${values[0]}` })
+    }
+    return yield* Schema.decodeUnknown(command.args)(encoded).pipe(
+      Effect.mapError((error) => {
+        const [issue] = ParseResult.ArrayFormatter.formatErrorSync(error)
+        const name = issue.path.length > 0 ? ` ${String(issue.path[0])}` : ""
+        return new CommandArgsError({ message: `Invalid${name}: ${issue.message}` })
+      })
+    )
+  })
+
+// =============================================================================
+// Help and Command Menu
+// =============================================================================
+
+/**
+ * The description of a command in the language of a user, falling back to the
+ * untranslated description
+ * @param command The command to describe
+ * @param languageCode The language of the user, e.g. en or pt-BR
+ */
+export const describeCommand = (command: AnyCommand, languageCode?: string): string =>
+  (languageCode && (command.descriptions[languageCode] ?? command.descriptions[languageCode.split("-")[0]])) ||
+  command.description
+
+/**
+ * The /help text listing the usage and description of every command that is not hidden
+ * @param commands The commands to list
+ * @param languageCode The language of the user
+ */
+export const formatHelp = (commands: ReadonlyArray<AnyCommand>, languageCode?: string): string =>
+  [
+    "🤖 Available Commands:",
+    "",
+    ...commands
+      .filter((command) => !command.hidden)
+      .map((command) => `${command.usage} - ${describeCommand(command, languageCode)}`)
+  ].join("\n")
+
+/**
+ * The setMyCommands calls making the command menu match the commands, one for
+ * every scope and one more for every language a description is translated to.
+ * A user of a translated language is shown every command of the scope, with
+ * the untranslated description where a translation is missing.
+ * @param commands The commands to show in the menu, hidden ones are left out
+ */
+export const makeCommandMenus = (commands: ReadonlyArray<AnyCommand>): Array<SetMyCommandsParams> => {
+  const scopes = new Map<string, { scope: BotCommandScope; commands: Array<AnyCommand> }>()
+  for (const command of commands.filter((command) => !command.hidden)) {
+    for (const scope of command.scopes) {
+      const key = JSON.stringify(scope)
+      const entry = scopes.get(key) ?? { commands: [], scope }
+      scopes.set(key, { ...entry, commands: [...entry.commands, command] })
+    }
+  }
+  return Array.from(scopes.values()).flatMap(({ commands, scope }) => {
+    const languageCodes = new Set(commands.flatMap((command) => Object.keys(command.descriptions)))
+    return [undefined, ...languageCodes].map((languageCode) => ({
+      commands: commands.map((command) => ({
+        command: command.name,
+        description: describeCommand(command, languageCode)
+      })),
+      scope,
+      ...languageCode ? { language_code: languageCode } : {}
+    }))
+  })
+}
+
+// =============================================================================
+// Unknown Commands
+// =============================================================================
+
+/**
+ * How to answer a command that is not registered: reply with a hint to /help,
+ * ignore it, or react to it with 🤔
+ */
+export type UnknownCommandPolicy = "ignore" | "react" | "reply"
+
+/**
+ * Configuration for running commands
+ */
+export interface CommandManagerConfig {
+  /** How to answer unknown commands in groups, supergroups and channels */
+  readonly unknownCommandInGroups: UnknownCommandPolicy
+  /** How to answer unknown commands in private chats */
+  readonly unknownCommandInPrivate: UnknownCommandPolicy
+}
+
+export class CommandManagerConfigContext extends Context.Tag(
+  "@context/CommandManagerConfig"
+)<CommandManagerConfigContext, CommandManagerConfig>() {}
+
+/**
+ * Configuration layer that loads settings from environment variables
+ */
+export const CommandManagerConfigLive = Layer.effect(
+  CommandManagerConfigContext,
+  Effect.gen(function*() {
+    // Replying in busy groups would be spam
+    const unknownCommandInGroups = yield* Config.withDefault(
+      Config.literal("ignore", "react", "reply")("TELEGRAM_UNKNOWN_COMMAND_IN_GROUPS"),
+      "ignore"
+    )
+    const unknownCommandInPrivate = yield* Config.withDefault(
+      Config.literal("ignore", "react", "reply")("TELEGRAM_UNKNOWN_COMMAND_IN_PRIVATE"),
+      "reply"
+    )
+
+    return CommandManagerConfigContext.of({ unknownCommandInGroups, unknownCommandInPrivate })
+  })
+)
+
+// The number of single-character insertions, deletions and substitutions turning one word into the other
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * The command a mistyped name was most likely meant to be, allowing one typo
+ * for every three characters. Hidden commands are never suggested.
+ * @param commands The commands to choose from
+ * @param name The unknown name
+ * @returns The name or alias of the closest command, if any is close enough
+ */
+export const suggestCommand = (commands: ReadonlyArray<AnyCommand>, name: string): Option.Option<string> => {
+  const maxDistance = Math.max(1, Math.floor(name.length / 3))
+  let suggestion: Option.Option<string> = Option.none()
+  let suggestionDistance = maxDistance + 1
+  for (const command of commands.filter((command) => !command.hidden)) {
+    for (const candidate of [command.name, ...command.aliases]) {
+      const distance = editDistance(name, candidate)
+      if (distance < suggestionDistance) {
+        suggestion = Option.some(candidate)
+        suggestionDistance = distance
+      }
+    }
+  }
+  return suggestion
+}
+
+// =============================================================================
+// Command Registry
+// =============================================================================
+
+/**
+ * A command was registered under a name or alias that is already taken
+ */
+export class CommandManagerDuplicateCommandError extends Data.TaggedError("CommandManagerDuplicateCommandError")<{
+  readonly message: string
+  /** The name or alias that is already taken */
+  readonly name: string
+}> {}
 
 export interface CommandManager {
-  handle(
-    messageText: string,
-    chatId: number,
-    userId: number
-  ): Effect.Effect<void, TelegramBotApiError>
-  register(command: string, handler: CommandHandler): Effect.Effect<void>
+  /**
+   * The registered commands, in registration order
+   */
+  readonly commands: Effect.Effect<Array<AnyCommand>>
+  /**
+   * Run the command a message starts with, see parseBotCommand. Commands
+   * addressed to another bot, as in /help@other_bot, are ignored. Users the
+   * command's guards deny are answered with the guard's denial. Invalid
+   * arguments are answered with the reason and the usage of the command,
+   * unknown commands as configured for the type of chat, suggesting the
+   * closest command when replying.
+   * @param message The message starting with a command
+   */
+  handle(message: Message): Effect.Effect<void, TelegramBotApiRequestError>
+  /**
+   * Register a command under its name and aliases
+   * @param command The command, see defineCommand
+   * @returns Fails when the name or an alias is taken by another command, unregister it first to replace it
+   */
+  register<A, I extends CommandArgsEncoded>(
+    command: Command<A, I>
+  ): Effect.Effect<void, CommandManagerDuplicateCommandError>
+  /**
+   * Set the command menu of every scope and language of the registered
+   * commands with setMyCommands, so the menu matches the code. Menus of
+   * scopes no longer used by any command are left as they are.
+   */
+  readonly syncCommands: Effect.Effect<void, TelegramBotApiRequestError>
+  /**
+   * Remove a command, does nothing when no command has the name
+   * @param name The name or an alias of the command
+   */
+  unregister(name: string): Effect.Effect<void>
+}
+
+// A registered command, whose run parses the arguments and passes them to the handler of the command
+interface RegisteredCommand extends AnyCommand {
+  run(argsText: string, context: CommandContext): Effect.Effect<void, CommandArgsError | TelegramBotApiRequestError>
 }
 
 export class CommandManagerContext extends Context.Tag(
@@ -37,44 +498,135 @@ export class CommandManagerContext extends Context.Tag(
 export const CommandManagerLive = Layer.effect(
   CommandManagerContext,
   Effect.gen(function*() {
+    const commandManagerConfig = yield* CommandManagerConfigContext
     const formManager = yield* FormManagerContext
+    const guardManager = yield* GuardManagerContext
     const historyCache = yield* HistoryCacheContext
     const messageCache = yield* MessageCacheContext
     const telegramBotApi = yield* TelegramBotApiContext
-    const commandsRef = yield* Ref.make(new Map<string, CommandHandler>())
+    const commandsRef = yield* Ref.make(new Map<string, RegisteredCommand>())
+
+    // The bot's own username, fetched once it is needed to tell who a command is addressed to
+    const usernameRef = yield* Ref.make<string | undefined>(undefined)
+    const getUsername = Effect.gen(function*() {
+      const cached = yield* Ref.get(usernameRef)
+      if (cached !== undefined) {
+        return cached
+      }
+      const username = (yield* telegramBotApi.getMe()).username ?? ""
+      yield* Ref.set(usernameRef, username)
+      return username
+    })
+
+    // Find a command by its name or one of its aliases
+    const findCommand = <C extends AnyCommand>(commands: Map<string, C>, name: string) =>
+      commands.get(name) ?? Array.from(commands.values()).find((command) => command.aliases.includes(name))
+
+    const answerUnknownCommand = (message: Message, name: string, commands: Array<AnyCommand>) => {
+      const policy = message.chat.type === "private"
+        ? commandManagerConfig.unknownCommandInPrivate
+        : commandManagerConfig.unknownCommandInGroups
+      switch (policy) {
+        case "ignore":
+          return Effect.logDebug(`Ignoring unknown command /${name}`)
+        case "react":
+          return telegramBotApi.setMessageReaction({
+            chat_id: message.chat.id,
+            message_id: message.message_id,
+            reaction: [{ emoji: "🤔", type: "emoji" }]
+          })
+        case "reply": {
+          const suggestion = suggestCommand(commands, name)
+          return telegramBotApi.sendMessage({
+            chat_id: message.chat.id,
+            text: Option.isSome(suggestion)
+              ? `Unknown command: /${name}. Did you mean /${suggestion.value}?`
+              : `Unknown command: /${name}. Use /help to see available commands.`
+          })
+        }
+      }
+    }
+
+    const getCommands = Ref.get(commandsRef).pipe(Effect.map((commands) => Array.from(commands.values())))
 
     return CommandManagerContext.of({
-      handle: (messageText, chatId, userId) =>
+      commands: getCommands,
+      handle: (message) =>
         Effect.gen(function*() {
-          if (!messageText.startsWith("/")) {
-            return yield* Effect.void
+          const botCommand = parseBotCommand(message)
+          if (Option.isNone(botCommand)) {
+            return
+          }
+          const { argsText, name, username } = botCommand.value
+          if (username !== undefined && username.toLowerCase() !== (yield* getUsername).toLowerCase()) {
+            return yield* Effect.logDebug(`Ignoring /${name} addressed to @${username}`)
           }
-          // Extract command and arguments
-          const parts = messageText.trim().split(/\s+/)
-          const command = parts[0].substring(1).toLowerCase() // Remove '/' and convert to lowercase
-          const args = parts.slice(1) // Remaining parts are arguments
+          const chatId = message.chat.id
           const commands = yield* Ref.get(commandsRef)
-          const handler = commands.get(command)
-          if (!handler) {
-            return yield* telegramBotApi.sendMessage({
-              chat_id: chatId,
-              text: `Unknown command: /${command}. Use /help to see available commands.`
-            })
+          const command = findCommand(commands, name)
+          if (!command) {
+            return yield* answerUnknownCommand(message, name, Array.from(commands.values()))
           }
-          // Command not found, send a default response
-          yield* handler(
-            chatId,
-            userId,
-            messageText,
-            args,
-            { formManager, historyCache, messageCache, telegramBotApi }
+          const userId = message.from?.id ?? chatId
+          const subject: GuardSubject = { chatId, chatType: message.chat.type, userId }
+          // Guards are checked first, so a denied user does not learn the usage of the command
+          yield* guardManager.guard(
+            command.guards,
+            subject,
+            command.run(argsText, {
+              chatId,
+              commands: Array.from(commands.values()),
+              formManager,
+              guardManager,
+              historyCache,
+              languageCode: message.from?.language_code,
+              message,
+              messageCache,
+              messageText: message.text ?? "",
+              subject,
+              telegramBotApi,
+              userId
+            }).pipe(
+              Effect.catchTag("CommandArgsError", (error) =>
+                telegramBotApi.sendMessage({
+                  chat_id: chatId,
+                  text: `${error.message}\nUsage: ${command.usage}`
+                }))
+            )
           )
         }),
-      register: (command, handler) =>
-        Ref.update(commandsRef, (commands) => commands.set(command.toLowerCase(), handler))
-      //   {
-      //   commands.set(command.toLowerCase(), handler)
-      // }
+      register: (command) =>
+        Effect.gen(function*() {
+          // The registry does not know the type of the arguments, only the command itself does
+          const registered: RegisteredCommand = {
+            ...command,
+            run: (argsText, context) =>
+              parseCommandArgs(command, argsText).pipe(Effect.flatMap((args) => command.handler(args, context)))
+          }
+          const taken = yield* Ref.modify(commandsRef, (commands) => {
+            const taken = [command.name, ...command.aliases].find((name) => findCommand(commands, name))
+            return [taken, taken === undefined ? commands.set(command.name, registered) : commands]
+          })
+          if (taken !== undefined) {
+            return yield* new CommandManagerDuplicateCommandError({
+              message: `Command /${taken} is already registered`,
+              name: taken
+            })
+          }
+        }),
+      syncCommands: getCommands.pipe(
+        Effect.flatMap((commands) =>
+          Effect.forEach(makeCommandMenus(commands), (menu) => telegramBotApi.setMyCommands(menu), { discard: true })
+        )
+      ),
+      unregister: (name) =>
+        Ref.update(commandsRef, (commands) => {
+          const command = findCommand(commands, name.toLowerCase())
+          if (command) {
+            commands.delete(command.name)
+          }
+          return commands
+        })
     })
   })
 )
@@ -1,122 +1,106 @@
-import { Effect } from "effect"
-import type { CommandHandler } from "./CommandManager.js"
+import { Effect, Option, Schema } from "effect"
+import { defineCommand, formatHelp } from "./CommandManager.js"
 
-// Help command handler effect
-export const photoCommandHandler: CommandHandler = (
-  chatId,
-  userId,
-  messageText,
-  args,
-  { messageCache, telegramBotApi }
-) =>
-  Effect.gen(function*() {
-    yield* Effect.logInfo(chatId, userId, messageText, args)
-    // Extract filename from command arguments
-    if (args.length < 1) {
-      return yield* telegramBotApi.sendMessage({
-        chat_id: chatId,
-        text: "Please provide an photo filename. Usage: /photo <filename>"
-      })
-    }
-    const filename = args[0]
-    const cached = yield* messageCache.get(filename)
-    // If not in cache, send a message that the photo is not available
-    if (!cached) {
-      yield* Effect.logInfo(`photo not found in cache: ${filename}`)
-      return yield* telegramBotApi.sendMessage({
+// Photo command, sends a photo from cache
+export const photoCommand = defineCommand({
+  name: "photo",
+  description: "Send a photo file from cache",
+  args: Schema.Struct({ filename: Schema.String }),
+  handler: ({ filename }, { chatId, messageCache, telegramBotApi, userId }) =>
+    Effect.gen(function*() {
+      yield* Effect.logInfo(chatId, userId, filename)
+      const cached = yield* messageCache.get(filename)
+      // If not in cache, send a message that the photo is not available
+      if (!cached) {
+        yield* Effect.logInfo(`photo not found in cache: ${filename}`)
+        return yield* telegramBotApi.sendMessage({
+          chat_id: chatId,
+          text: `photo file "${filename}" not found in cache.`
+        })
+      }
+      // Send photo from cache
+      yield* Effect.logInfo(`Sending cached photo: ${filename}`)
+      yield* telegramBotApi.sendPhoto({
+        caption: `Playing cached photo: ${filename}`,
         chat_id: chatId,
-        text: `photo file "${filename}" not found in cache.`
+        photo: cached.photo?.sort((a, b) => b.width - a.width)[0].file_id || ""
       })
-    }
-    // Send photo from cache
-    yield* Effect.logInfo(`Sending cached photo: ${filename}`)
-    yield* telegramBotApi.sendPhoto({
-      caption: `Playing cached photo: ${filename}`,
-      chat_id: chatId,
-      photo: cached.photo?.sort((a, b) => b.width - a.width)[0].file_id || ""
     })
-  })
+})
 
-// Help command handler effect
-export const helpCommandHandler: CommandHandler = (
-  chatId,
-  userId,
-  messageText,
-  args,
-  { telegramBotApi }
-) =>
-  Effect.gen(function*() {
-    yield* Effect.logInfo(chatId, userId, messageText, args)
-    const helpMessage = "🤖 Available Commands:\n\n" +
-      "/help - Show this help message\n" +
-      "/start - Start interacting with the bot\n" +
-      "/photo <filename> - Send an photo file from cache\n" +
-      "/photo1 photo 1\n" +
-      "/photo2 photo 2\n" +
-      "/photo3 photo 3\n" +
-      "/historypush\n" +
-      "/historyback\n" +
-      "/formlist\n" +
-      "/form <name>"
-    yield* telegramBotApi.sendMessage({
-      chat_id: chatId,
-      text: helpMessage
+// Help command, lists the commands that are not hidden
+export const helpCommand = defineCommand({
+  name: "help",
+  description: "Show this help message",
+  args: Schema.Struct({}),
+  handler: (_, { chatId, commands, guardManager, languageCode, subject, telegramBotApi, userId }) =>
+    Effect.gen(function*() {
+      yield* Effect.logInfo(chatId, userId)
+      // Only list the commands the user may run here
+      const allowed = yield* Effect.filter(
+        commands,
+        (command) => Effect.map(guardManager.check(command.guards, subject), Option.isNone)
+      )
+      yield* telegramBotApi.sendMessage({
+        chat_id: chatId,
+        text: formatHelp(allowed, languageCode)
+      })
     })
-  })
+})
 
-// Start command handler effect
-export const startCommandHandler: CommandHandler = (
-  chatId,
-  userId,
-  messageText,
-  args,
-  { telegramBotApi }
-) =>
-  Effect.gen(function*() {
-    yield* Effect.logInfo(chatId, userId, messageText, args)
-    const startMessage = "Welcome! I'm your Telegram bot. Use /help to see available commands."
-    yield* telegramBotApi.sendMessage({
-      chat_id: chatId,
-      text: startMessage
+// Start command, greets the user or starts the form named by a deep link, e.g. t.me/<bot>?start=registration
+export const startCommand = defineCommand({
+  name: "start",
+  description: "Start interacting with the bot",
+  args: Schema.Struct({ formName: Schema.optional(Schema.String) }),
+  handler: ({ formName }, { chatId, formManager, subject, telegramBotApi, userId }) =>
+    Effect.gen(function*() {
+      yield* Effect.logInfo(chatId, userId, formName)
+      if (formName !== undefined && (yield* formManager.forms).includes(formName)) {
+        return yield* formManager.startForm(subject, formName, telegramBotApi)
+      }
+      const startMessage = "Welcome! I'm your Telegram bot. Use /help to see available commands."
+      yield* telegramBotApi.sendMessage({
+        chat_id: chatId,
+        text: startMessage
+      })
     })
-  })
+})
 
-// photo1 command handler effect
-export const photo1CommandHandler: CommandHandler = (
-  chatId,
-  userId,
-  messageText,
-  args,
-  { telegramBotApi }
-) =>
-  Effect.gen(function*() {
-    yield* Effect.logInfo(chatId, userId, messageText, args)
-    const message = yield* telegramBotApi.sendPhoto({
-      caption: "📸 293906.jpeg",
-      chat_id: chatId,
-      photo: "https://avatars.githubusercontent.com/u/293906?v=4"
+// photo1 command, sends a photo by URL
+export const photo1Command = defineCommand({
+  name: "photo1",
+  description: "Send photo 1",
+  args: Schema.Struct({}),
+  handler: (_, { chatId, telegramBotApi, userId }) =>
+    Effect.gen(function*() {
+      yield* Effect.logInfo(chatId, userId)
+      const message = yield* telegramBotApi.sendPhoto({
+        caption: "📸 293906.jpeg",
+        chat_id: chatId,
+        photo: "https://avatars.githubusercontent.com/u/293906?v=4"
+      })
+      yield* Effect.logInfo(message)
     })
-    yield* Effect.logInfo(message)
-  })
+})
 
-// photo2 command handler effect
-export const photo2CommandHandler: CommandHandler = (
-  chatId,
-  userId,
-  messageText,
-  args,
-  { messageCache: messageCache, telegramBotApi }
-) =>
-  Effect.gen(function*() {
-    yield* Effect.logInfo(chatId, userId, messageText, args)
-    const message = yield* telegramBotApi.sendPhoto({
-      caption: "📸 293906.jpeg",
-      chat_id: chatId,
-      photo: "AgACAgQAAxkDAANeaQ9EyYY_8iIgQ-3RvHW3uu_NsLoAAq8LaxvPVH1QQEg0_LbVf5EBAAMCAAN4AAM2BA"
+// photo2 command, sends a photo by file_id and caches the message
+export const photo2Command = defineCommand({
+  name: "photo2",
+  description: "Send photo 2",
+  args: Schema.Struct({}),
+  handler: (_, { chatId, messageCache, telegramBotApi, userId }) =>
+    Effect.gen(function*() {
+      yield* Effect.logInfo(chatId, userId)
+      const message = yield* telegramBotApi.sendPhoto({
+        caption: "📸 293906.jpeg",
+        chat_id: chatId,
+        photo: "AgACAgQAAxkDAANeaQ9EyYY_8iIgQ-3RvHW3uu_NsLoAAq8LaxvPVH1QQEg0_LbVf5EBAAMCAAN4AAM2BA"
+      })
+      yield* Effect.logInfo(message)
+      yield* messageCache.set("293906.jpeg", message)
     })
-    yield* Effect.logInfo(message)
-    yield* messageCache.set("293906.jpeg", message)
-  })
+})
 
 async function fetchphotoAsBuffer(url: string) {
   const response = await fetch(url)
@@ -127,102 +111,89 @@ async function fetchphotoAsBuffer(url: string) {
   return Buffer.from(arrayBuffer)
 }
 
-// photo3 command handler effect
-export const photo3CommandHandler: CommandHandler = (
-  chatId,
-  userId,
-  messageText,
-  args,
-  { telegramBotApi }
-) =>
-  Effect.gen(function*() {
-    yield* Effect.logInfo(chatId, userId, messageText, args)
-    const url = "https://avatars.githubusercontent.com/u/293906?v=4"
-    const blob = yield* Effect.promise(() => fetchphotoAsBuffer(url))
-    const message = yield* telegramBotApi.sendPhoto({
-      caption: "📸 293906.jpeg",
-      chat_id: chatId,
-      photo: {
-        content: blob,
-        filename: "293906.jpeg",
-        mime_type: "photo/jpeg"
-      }
+// photo3 command, uploads a photo
+export const photo3Command = defineCommand({
+  name: "photo3",
+  description: "Send photo 3",
+  args: Schema.Struct({}),
+  handler: (_, { chatId, telegramBotApi, userId }) =>
+    Effect.gen(function*() {
+      yield* Effect.logInfo(chatId, userId)
+      const url = "https://avatars.githubusercontent.com/u/293906?v=4"
+      const blob = yield* Effect.promise(() => fetchphotoAsBuffer(url))
+      const message = yield* telegramBotApi.sendPhoto({
+        caption: "📸 293906.jpeg",
+        chat_id: chatId,
+        photo: {
+          content: blob,
+          filename: "293906.jpeg",
+          mime_type: "photo/jpeg"
+        }
+      })
+      yield* Effect.logInfo(message)
     })
-    yield* Effect.logInfo(message)
-  })
+})
 
-// Historypush command handler effect
-export const historypushCommandHandler: CommandHandler = (
-  chatId,
-  userId,
-  messageText,
-  args,
-  { historyCache, telegramBotApi }
-) =>
-  Effect.gen(function*() {
-    yield* Effect.logInfo(chatId, userId, messageText, args)
-    const method = "sendMessage"
-    const text = "HISTORY PUSH"
-    const data = { chat_id: chatId, text }
-    yield* telegramBotApi[method](data)
-    yield* historyCache.push(userId, { data, method })
-  })
+// Historypush command, sends a message and remembers it
+export const historypushCommand = defineCommand({
+  name: "historypush",
+  description: "Push a message to the history",
+  args: Schema.Struct({}),
+  handler: (_, { chatId, historyCache, telegramBotApi, userId }) =>
+    Effect.gen(function*() {
+      yield* Effect.logInfo(chatId, userId)
+      const method = "sendMessage"
+      const text = "HISTORY PUSH"
+      const data = { chat_id: chatId, text }
+      yield* telegramBotApi[method](data)
+      yield* historyCache.push(userId, { data, method })
+    })
+})
 
-// Historyback command handler effect
-export const historybackCommandHandler: CommandHandler = (
-  chatId,
-  userId,
-  messageText,
-  args,
-  { historyCache }
-) =>
-  Effect.gen(function*() {
-    yield* Effect.logInfo(chatId, userId, messageText, args)
-    yield* historyCache.back(userId)
-  })
+// Historyback command, goes back in the history
+export const historybackCommand = defineCommand({
+  name: "historyback",
+  description: "Go back in the history",
+  args: Schema.Struct({}),
+  handler: (_, { chatId, historyCache, userId }) =>
+    Effect.gen(function*() {
+      yield* Effect.logInfo(chatId, userId)
+      yield* historyCache.back(userId)
+    })
+})
 
-// Form command handler effect
-export const formCommandHandler: CommandHandler = (
-  chatId,
-  userId,
-  messageText,
-  args,
-  { formManager, telegramBotApi }
-) =>
-  Effect.gen(function*() {
-    yield* Effect.logInfo(chatId, userId, messageText, args)
-    if (args.length < 1) {
-      return yield* telegramBotApi.sendMessage({
-        chat_id: chatId,
-        text: "Please provide a form name. Usage: /form <formName>"
-      })
-    }
-    const formName = args[0]
-    // Try to start the form
-    yield* formManager.startForm(chatId, formName, telegramBotApi).pipe(
-      Effect.catchAll((error) =>
-        telegramBotApi.sendMessage({
-          chat_id: chatId,
-          text: `Error starting form: ${error.message || "Unknown error"}`
-        })
+// Form command, starts a form
+export const formCommand = defineCommand({
+  name: "form",
+  description: "Start filling out a form",
+  args: Schema.Struct({ formName: Schema.String }),
+  handler: ({ formName }, { chatId, formManager, subject, telegramBotApi, userId }) =>
+    Effect.gen(function*() {
+      yield* Effect.logInfo(chatId, userId, formName)
+      // Try to start the form
+      yield* formManager.startForm(subject, formName, telegramBotApi).pipe(
+        Effect.catchAll((error) =>
+          telegramBotApi.sendMessage({
+            chat_id: chatId,
+            text: `Error starting form: ${error.message || "Unknown error"}`
+          })
+        )
       )
-    )
-  })
+    })
+})
 
-// Form list command handler effect
-export const formListCommandHandler: CommandHandler = (
-  chatId,
-  userId,
-  messageText,
-  args,
-  { telegramBotApi }
-) =>
-  Effect.gen(function*() {
-    yield* Effect.logInfo(chatId, userId, messageText, args)
-    // For now, we'll send a placeholder message about available forms
-    // In a more sophisticated implementation, we would have a way to list registered forms
-    yield* telegramBotApi.sendMessage({
-      chat_id: chatId,
-      text: "Available forms: registration (example forms)"
+// Form list command, lists the forms
+export const formListCommand = defineCommand({
+  name: "formlist",
+  description: "List the available forms",
+  args: Schema.Struct({}),
+  handler: (_, { chatId, formManager, telegramBotApi, userId }) =>
+    Effect.gen(function*() {
+      yield* Effect.logInfo(chatId, userId)
+      const forms = yield* formManager.forms
+      yield* telegramBotApi.sendMessage({
+        chat_id: chatId,
+        text: forms.length > 0 ? `Available forms: ${forms.join(", ")}` : "No forms available"
+      })
     })
-  })
+})
@@ -0,0 +1,190 @@
+import { FileSystem, HttpClient, HttpClientResponse } from "@effect/platform"
+import { Chunk, Config, Context, Effect, Layer, Redacted, Stream } from "effect"
+import {
+  type File,
+  TelegramBotApiConfigContext,
+  TelegramBotApiContext,
+  TelegramBotApiFileError,
+  type TelegramBotApiRequestError
+} from "./TelegramBotApi.js"
+
+// =============================================================================
+// Configuration Layer
+// =============================================================================
+
+/**
+ * Configuration for file downloads
+ */
+export interface FileDownloaderConfig {
+  /** Maximum size of a downloaded file in bytes */
+  readonly maxFileSize: number
+}
+
+export class FileDownloaderConfigContext extends Context.Tag(
+  "@context/FileDownloaderConfig"
+)<FileDownloaderConfigContext, FileDownloaderConfig>() {}
+
+/**
+ * Configuration layer that loads settings from environment variables
+ */
+export const FileDownloaderConfigLive = Layer.effect(
+  FileDownloaderConfigContext,
+  Effect.gen(function*() {
+    const telegramBotApiConfig = yield* TelegramBotApiConfigContext
+    const maxFileSize = yield* Config.withDefault(
+      Config.number("TELEGRAM_MAX_DOWNLOAD_SIZE").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      // The cloud Bot API does not serve files larger than 20 MB, a local server serves files of up to 2000 MB
+      (telegramBotApiConfig.localMode ? 2000 : 20) * 1024 * 1024
+    )
+
+    return FileDownloaderConfigContext.of({ maxFileSize })
+  })
+)
+
+// =============================================================================
+// File Downloader
+// =============================================================================
+
+/**
+ * Service to download files sent to the bot, built on getFile
+ */
+export interface FileDownloader {
+  /**
+   * Download a file as a stream of bytes
+   * @param fileId The file_id of the file to download
+   */
+  downloadFile(fileId: string): Stream.Stream<Uint8Array, TelegramBotApiRequestError>
+  /**
+   * Download a file into memory
+   * @param fileId The file_id of the file to download
+   */
+  downloadToBuffer(fileId: string): Effect.Effect<Uint8Array, TelegramBotApiRequestError>
+  /**
+   * Download a file to disk
+   * @param fileId The file_id of the file to download
+   * @param path The path to write the file to
+   */
+  downloadToFile(
+    fileId: string,
+    path: string
+  ): Effect.Effect<void, TelegramBotApiRequestError>
+}
+
+export class FileDownloaderContext extends Context.Tag(
+  "@context/FileDownloader"
+)<FileDownloaderContext, FileDownloader>() {}
+
+export const FileDownloaderLive = Layer.effect(
+  FileDownloaderContext,
+  Effect.gen(function*() {
+    const fileDownloaderConfig = yield* FileDownloaderConfigContext
+    const fileSystem = yield* FileSystem.FileSystem
+    // The spans of the HTTP client would leak the token in the URL of the file
+    const httpClient = (yield* HttpClient.HttpClient).pipe(
+      HttpClient.filterStatusOk,
+      HttpClient.withTracerDisabledWhen(() => true)
+    )
+    const telegramBotApi = yield* TelegramBotApiContext
+    const telegramBotApiConfig = yield* TelegramBotApiConfigContext
+
+    // Files are served from /file/bot<token>/<file_path> next to the /bot<token>/<method> endpoints
+    const makeFileUrl = (filePath: string) => {
+      const baseUrl = telegramBotApiConfig.apiBaseUrl.endsWith("/bot")
+        ? telegramBotApiConfig.apiBaseUrl.slice(0, -"bot".length)
+        : `${new URL(telegramBotApiConfig.apiBaseUrl).origin}/`
+      return `${baseUrl}file/bot${Redacted.value(telegramBotApiConfig.token)}/${filePath}`
+    }
+
+    // Fail as soon as more bytes than allowed arrived, file_size is not always known up front
+    const limitSize = (fileId: string) =>
+      Stream.mapAccumEffect(0, (total: number, chunk: Uint8Array) => {
+        const next = total + chunk.length
+        return next > fileDownloaderConfig.maxFileSize
+          ? Effect.fail(
+            new TelegramBotApiFileError({
+              message: `File exceeds the maximum size of ${fileDownloaderConfig.maxFileSize} bytes`,
+              fileId
+            })
+          )
+          : Effect.succeed([next, chunk] as const)
+      })
+
+    const streamFile = (file: File): Stream.Stream<Uint8Array, TelegramBotApiFileError> => {
+      const filePath = file.file_path
+      if (!filePath) {
+        return Stream.fail(
+          new TelegramBotApiFileError({ message: "File is not available for download", fileId: file.file_id })
+        )
+      }
+      if (file.file_size !== undefined && file.file_size > fileDownloaderConfig.maxFileSize) {
+        return Stream.fail(
+          new TelegramBotApiFileError({
+            message:
+              `File of ${file.file_size} bytes exceeds the maximum size of ${fileDownloaderConfig.maxFileSize} bytes`,
+            fileId: file.file_id,
+            fileName: filePath
+          })
+        )
+      }
+      // A local Bot API server returns absolute paths on its own filesystem, shared with the bot
+      if (telegramBotApiConfig.localMode) {
+        return fileSystem.stream(filePath).pipe(
+          Stream.mapError((error) =>
+            new TelegramBotApiFileError({
+              message: `Failed to read file: ${error.message}`,
+              fileId: file.file_id,
+              fileName: filePath
+            })
+          )
+        )
+      }
+      return HttpClientResponse.stream(httpClient.get(makeFileUrl(filePath))).pipe(
+        Stream.mapError((error) =>
+          new TelegramBotApiFileError({
+            // The error and its message contain the request URL, and so the token, only its reason is kept
+            message: error._tag === "ResponseError"
+              ? `Failed to download file: ${error.reason} ${error.response.status}`
+              : `Failed to download file: ${error.reason}`,
+            fileId: file.file_id,
+            fileName: filePath
+          })
+        )
+      )
+    }
+
+    const downloadFile = (fileId: string) =>
+      Stream.unwrap(
+        telegramBotApi.getFile({ file_id: fileId }).pipe(
+          Effect.map(streamFile)
+        )
+      ).pipe(
+        limitSize(fileId),
+        Stream.withSpan("telegram.downloadFile", { attributes: { "telegram.file_id": fileId } })
+      )
+
+    return FileDownloaderContext.of({
+      downloadFile,
+      downloadToBuffer: (fileId) =>
+        Stream.runCollect(downloadFile(fileId)).pipe(
+          Effect.map((chunks) => {
+            const buffer = new Uint8Array(Chunk.reduce(chunks, 0, (size, chunk) => size + chunk.length))
+            Chunk.reduce(chunks, 0, (offset, chunk) => {
+              buffer.set(chunk, offset)
+              return offset + chunk.length
+            })
+            return buffer
+          })
+        ),
+      downloadToFile: (fileId, path) =>
+        downloadFile(fileId).pipe(
+          Stream.run(fileSystem.sink(path)),
+          Effect.catchTag("SystemError", "BadArgument", (error) =>
+            Effect.fail(
+              new TelegramBotApiFileError({ message: `Failed to write file: ${error.message}`, fileId, cause: error })
+            ))
+        )
+    })
+  })
+)
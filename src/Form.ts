@@ -1,5 +1,6 @@
 import { Context, Data, Effect, HashMap, Layer, Option, Ref } from "effect"
-import type { TelegramBotApi } from "./TelegramBotApi.js"
+import { type Guard, GuardManagerContext, type GuardSubject } from "./Guard.js"
+import type { TelegramBotApi, TelegramBotApiRequestError } from "./TelegramBotApi.js"
 import { TelegramBotApiError } from "./TelegramBotApi.js"
 
 // =============================================================================
@@ -18,6 +19,8 @@ export interface FormStep {
 }
 
 export interface FormDefinition {
+  /** The rules a user must pass to start the form */
+  readonly guards: ReadonlyArray<Guard>
   /** The unique name of the form */
   readonly name: string
   /** The steps that comprise the form */
@@ -32,7 +35,7 @@ export interface FormDefinition {
     chatId: number,
     results: Record<string, string>,
     telegramBotApi: TelegramBotApi
-  ) => Effect.Effect<void, TelegramBotApiError>
+  ) => Effect.Effect<void, TelegramBotApiRequestError>
 }
 
 export interface FormState {
@@ -99,6 +102,10 @@ export const FormCacheLive = Layer.effect(
  * Service to manage forms and their states
  */
 export interface FormManager {
+  /**
+   * The names of the registered forms, in registration order
+   */
+  readonly forms: Effect.Effect<Array<string>>
   /**
    * Process user input during a form
    * @param chatId The ID of the chat where the input came from
@@ -109,18 +116,22 @@ export interface FormManager {
     chatId: number,
     input: string,
     telegramBotApi: TelegramBotApi
-  ): Effect.Effect<void, FormManagerNoActiveFormError | TelegramBotApiError>
+  ): Effect.Effect<void, FormManagerNoActiveFormError | TelegramBotApiRequestError>
   /**
    * Register a new form definition
    * @param formDefinition The form to register
    */
   registerForm(formDefinition: FormDefinition): Effect.Effect<void>
   /**
-   * Start a form for a specific chat
-   * @param chatId The ID of the chat to start the form in
+   * Start a form for a specific chat, when its guards allow the user
+   * @param subject The user starting the form, and the chat to start it in
    * @param formName The name of the form to start
    */
-  startForm(chatId: number, formName: string, telegramBotApi: TelegramBotApi): Effect.Effect<void, TelegramBotApiError>
+  startForm(
+    subject: GuardSubject,
+    formName: string,
+    telegramBotApi: TelegramBotApi
+  ): Effect.Effect<void, TelegramBotApiRequestError>
 }
 
 export class FormManagerContext extends Context.Tag(
@@ -131,9 +142,11 @@ export const FormManagerLive = Layer.effect(
   FormManagerContext,
   Effect.gen(function*() {
     const formCache = yield* FormCacheContext
+    const guardManager = yield* GuardManagerContext
     const formsRef = yield* Ref.make(new Map<string, FormDefinition>())
 
     return FormManagerContext.of({
+      forms: Ref.get(formsRef).pipe(Effect.map((formsMap) => Array.from(formsMap.keys()))),
       processInput: (chatId, input, telegramBotApi) =>
         Effect.gen(function*() {
           const maybeFormState = yield* formCache.get(chatId)
@@ -179,7 +192,7 @@ export const FormManagerLive = Layer.effect(
         }),
       registerForm: (formDefinition) =>
         Ref.update(formsRef, (formsMap) => formsMap.set(formDefinition.name, formDefinition)),
-      startForm: (chatId, formName, telegramBotApi) =>
+      startForm: (subject, formName, telegramBotApi) =>
         Effect.gen(function*() {
           const formsMap = yield* Ref.get(formsRef)
           const formDef = formsMap.get(formName)
@@ -197,12 +210,18 @@ export const FormManagerLive = Layer.effect(
             formName,
             results: {}
           }
-          yield* formCache.set(chatId, initialState)
-          // Send first step message
-          yield* telegramBotApi.sendMessage({
-            chat_id: chatId,
-            text: initiaStep.message
-          })
+          yield* guardManager.guard(
+            formDef.guards,
+            subject,
+            Effect.gen(function*() {
+              yield* formCache.set(subject.chatId, initialState)
+              // Send first step message
+              yield* telegramBotApi.sendMessage({
+                chat_id: subject.chatId,
+                text: initiaStep.message
+              })
+            })
+          )
         })
     })
   })
@@ -217,6 +236,7 @@ export const FormManagerLive = Layer.effect(
  * @param name The unique name of the form
  * @param steps The steps that comprise the form
  * @param onComplete Function to call when the form is completed
+ * @param guards The rules a user must pass to start the form
  * @returns A new form definition
  */
 export const createForm = (
@@ -226,8 +246,9 @@ export const createForm = (
     chatId: number,
     results: Record<string, string>,
     telegramBotApi: TelegramBotApi
-  ) => Effect.Effect<void, TelegramBotApiError>
-): FormDefinition => ({ name, steps, onComplete })
+  ) => Effect.Effect<void, TelegramBotApiRequestError>,
+  guards: ReadonlyArray<Guard> = []
+): FormDefinition => ({ guards, name, steps, onComplete })
 
 /**
  * Creates a single form step
@@ -0,0 +1,235 @@
+import { Cache, Config, Context, Duration, Effect, Layer, Option } from "effect"
+import { TelegramBotApiContext, type TelegramBotApiRequestError } from "./TelegramBotApi.js"
+
+// =============================================================================
+// Configuration Layer
+// =============================================================================
+
+/**
+ * Configuration for checking who may run commands and start forms
+ */
+export interface GuardConfig {
+  /** How long the administrators of a chat are cached in ms */
+  readonly adminCacheTtl: number
+  /** The user IDs of the bot's owners */
+  readonly ownerIds: ReadonlyArray<number>
+}
+
+export class GuardConfigContext extends Context.Tag(
+  "@context/GuardConfig"
+)<GuardConfigContext, GuardConfig>() {}
+
+/**
+ * Configuration layer that loads settings from environment variables
+ */
+export const GuardConfigLive = Layer.effect(
+  GuardConfigContext,
+  Effect.gen(function*() {
+    const adminCacheTtl = yield* Config.withDefault(
+      Config.number("TELEGRAM_ADMIN_CACHE_TTL").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      5 * 60 * 1000
+    )
+    const ownerIds = yield* Config.withDefault(Config.array(Config.integer(), "TELEGRAM_OWNER_IDS"), [])
+
+    return GuardConfigContext.of({ adminCacheTtl, ownerIds })
+  })
+)
+
+// =============================================================================
+// Guards
+// =============================================================================
+
+/**
+ * Who does something, and where
+ */
+export interface GuardSubject {
+  readonly chatId: number
+  /** The type of the chat: private, group, supergroup or channel */
+  readonly chatType: string
+  readonly userId: number
+}
+
+/**
+ * A rule a user must pass to run a command or start a form
+ */
+export type Guard =
+  | { readonly _tag: "AdminOnly"; readonly denial: string }
+  | { readonly _tag: "Allowlist"; readonly denial: string; readonly userIds: ReadonlyArray<number> }
+  | { readonly _tag: "GroupChatOnly"; readonly denial: string }
+  | { readonly _tag: "OwnerOnly"; readonly denial: string }
+  | { readonly _tag: "PrivateChatOnly"; readonly denial: string }
+
+export interface GuardOptions {
+  /** The reply to a user the guard denies, an empty string denies silently */
+  readonly denial?: string
+}
+
+/**
+ * Allow only the administrators and the creator of the group the message was sent in
+ */
+export const adminOnly = (options?: GuardOptions): Guard => ({
+  _tag: "AdminOnly",
+  denial: options?.denial ?? "Only administrators of this chat can do this."
+})
+
+/**
+ * Allow only the given users
+ * @param userIds The IDs of the allowed users
+ */
+export const allowlist = (userIds: ReadonlyArray<number>, options?: GuardOptions): Guard => ({
+  _tag: "Allowlist",
+  denial: options?.denial ?? "You are not allowed to do this.",
+  userIds
+})
+
+/**
+ * Allow only in groups and supergroups
+ */
+export const groupChatOnly = (options?: GuardOptions): Guard => ({
+  _tag: "GroupChatOnly",
+  denial: options?.denial ?? "This only works in groups."
+})
+
+/**
+ * Allow only the owners of the bot, see GuardConfig
+ */
+export const ownerOnly = (options?: GuardOptions): Guard => ({
+  _tag: "OwnerOnly",
+  denial: options?.denial ?? "Only the owner of the bot can do this."
+})
+
+/**
+ * Allow only in private chats with the bot
+ */
+export const privateChatOnly = (options?: GuardOptions): Guard => ({
+  _tag: "PrivateChatOnly",
+  denial: options?.denial ?? "This only works in a private chat with the bot."
+})
+
+// =============================================================================
+// Guard Manager
+// =============================================================================
+
+/**
+ * Service checking guards, shared by commands and forms
+ */
+export interface GuardManager {
+  /**
+   * Check the guards in order
+   * @param guards The guards to pass
+   * @param subject Who does something, and where
+   * @returns The first guard denying the subject, or none when all allow it
+   */
+  check(
+    guards: ReadonlyArray<Guard>,
+    subject: GuardSubject
+  ): Effect.Effect<Option.Option<Guard>, TelegramBotApiRequestError>
+  /**
+   * Run an effect when the guards allow the subject, otherwise reply with the
+   * denial of the first guard denying it
+   * @param guards The guards to pass
+   * @param subject Who does something, and where
+   * @param effect The effect to run
+   */
+  guard<A, E, R>(
+    guards: ReadonlyArray<Guard>,
+    subject: GuardSubject,
+    effect: Effect.Effect<A, E, R>
+  ): Effect.Effect<Option.Option<A>, E | TelegramBotApiRequestError, R>
+  /**
+   * Determine if a user administers a group, from its administrators cached
+   * for the configured TTL. A user missing from them is looked up with
+   * getChatMember to notice recent promotions, only an administrator found
+   * this way is cached.
+   * @param chatId The group
+   * @param userId The user
+   */
+  isChatAdmin(chatId: number, userId: number): Effect.Effect<boolean, TelegramBotApiRequestError>
+}
+
+export class GuardManagerContext extends Context.Tag(
+  "@context/GuardManager"
+)<GuardManagerContext, GuardManager>() {}
+
+export const GuardManagerLive = Layer.effect(
+  GuardManagerContext,
+  Effect.gen(function*() {
+    const guardConfig = yield* GuardConfigContext
+    const telegramBotApi = yield* TelegramBotApiContext
+
+    const adminsCache = yield* Cache.make({
+      capacity: 1000,
+      lookup: (chatId: number) =>
+        telegramBotApi.getChatAdministrators({ chat_id: chatId }).pipe(
+          Effect.map((admins) => admins.map((admin) => admin.user.id))
+        ),
+      timeToLive: Duration.millis(guardConfig.adminCacheTtl)
+    })
+    // Keyed by chat and user ID, joined with a colon, holding the administrators missing from adminsCache
+    const adminStatusCache = yield* Cache.make({
+      capacity: 10000,
+      lookup: (key: string) => {
+        const [chatId, userId] = key.split(":").map(Number)
+        return telegramBotApi.getChatMember({ chat_id: chatId, user_id: userId }).pipe(
+          Effect.map((member) => member.status === "creator" || member.status === "administrator")
+        )
+      },
+      timeToLive: Duration.millis(guardConfig.adminCacheTtl)
+    })
+
+    // A failed lookup is forgotten rather than cached, so it is tried again next time. So is a user
+    // who is no administrator, who may be promoted any moment.
+    const isChatAdmin = (chatId: number, userId: number) =>
+      Effect.gen(function*() {
+        const admins = yield* adminsCache.get(chatId).pipe(Effect.tapError(() => adminsCache.invalidate(chatId)))
+        if (admins.includes(userId)) {
+          return true
+        }
+        const key = `${chatId}:${userId}`
+        return yield* adminStatusCache.get(key).pipe(
+          Effect.tap((isAdmin) => isAdmin ? Effect.void : adminStatusCache.invalidate(key)),
+          Effect.tapError(() => adminStatusCache.invalidate(key))
+        )
+      })
+
+    const allows = (guard: Guard, { chatId, chatType, userId }: GuardSubject) => {
+      switch (guard._tag) {
+        case "AdminOnly":
+          // Private chats and channels have no administrators sending commands
+          return chatType === "group" || chatType === "supergroup"
+            ? isChatAdmin(chatId, userId)
+            : Effect.succeed(false)
+        case "Allowlist":
+          return Effect.succeed(guard.userIds.includes(userId))
+        case "GroupChatOnly":
+          return Effect.succeed(chatType === "group" || chatType === "supergroup")
+        case "OwnerOnly":
+          return Effect.succeed(guardConfig.ownerIds.includes(userId))
+        case "PrivateChatOnly":
+          return Effect.succeed(chatType === "private")
+      }
+    }
+
+    const check = (guards: ReadonlyArray<Guard>, subject: GuardSubject) =>
+      Effect.findFirst(guards, (guard) => Effect.map(allows(guard, subject), (allowed) => !allowed))
+
+    return GuardManagerContext.of({
+      check,
+      guard: (guards, subject, effect) =>
+        Effect.gen(function*() {
+          const denied = yield* check(guards, subject)
+          if (Option.isNone(denied)) {
+            return Option.some(yield* effect)
+          }
+          yield* Effect.logInfo(`User ${subject.userId} denied by ${denied.value._tag} in chat ${subject.chatId}`)
+          if (denied.value.denial !== "") {
+            yield* telegramBotApi.sendMessage({ chat_id: subject.chatId, text: denied.value.denial })
+          }
+          return Option.none()
+        }),
+      isChatAdmin
+    })
+  })
+)
@@ -1,5 +1,5 @@
 import { Context, Effect, Layer, Ref } from "effect"
-import { type TelegramBotApi, TelegramBotApiContext, type TelegramBotApiError } from "./TelegramBotApi.js"
+import { type TelegramBotApi, TelegramBotApiContext, type TelegramBotApiRequestError } from "./TelegramBotApi.js"
 
 export interface History {
   data: any
@@ -7,7 +7,7 @@ export interface History {
 }
 
 export interface HistoryCache {
-  back(userId: number): Effect.Effect<void, TelegramBotApiError>
+  back(userId: number): Effect.Effect<void, TelegramBotApiRequestError>
   delete(userId: number): Effect.Effect<void>
   push(userId: number, item: History): Effect.Effect<void>
 }
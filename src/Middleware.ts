@@ -0,0 +1,149 @@
+import { Context, Effect, Layer, Ref } from "effect"
+import {
+  type Chat,
+  type Message,
+  type TelegramBotApiRequestError,
+  type Update,
+  type UpdateType,
+  updateTypes,
+  type User
+} from "./TelegramBotApi.js"
+
+// =============================================================================
+// Middleware Types
+// =============================================================================
+
+/**
+ * The context every middleware receives for the update being processed
+ */
+export interface UpdateContext {
+  /** The chat the update belongs to, if any */
+  readonly chat?: Chat
+  /** The update being processed */
+  readonly update: Update
+  /** The user that triggered the update, if any */
+  readonly user?: User
+}
+
+/**
+ * A middleware wrapping the processing of every incoming update
+ *
+ * A middleware can run logic before and after `next`, short-circuit by not
+ * running `next`, catch errors of `next`, or enrich the context for the rest of
+ * the chain by providing services to `next` (e.g. with Effect.provideService),
+ * which later middleware and handlers read with Effect.serviceOption.
+ * @param context The context of the update being processed
+ * @param next The rest of the chain, ending with the update handler
+ */
+export type Middleware = (
+  context: UpdateContext,
+  next: Effect.Effect<void, TelegramBotApiRequestError>
+) => Effect.Effect<void, TelegramBotApiRequestError>
+
+// The chat and user an update's payload carries, if any
+type UpdateParticipants = { readonly chat: Chat | undefined; readonly user: User | undefined }
+
+const noParticipants: UpdateParticipants = { chat: undefined, user: undefined }
+
+const messageParticipants = (message: Message): UpdateParticipants => ({ chat: message.chat, user: message.from })
+
+// Where the payload of each update type carries its chat and user
+const updateParticipants: {
+  readonly [K in UpdateType]: (payload: NonNullable<Update[K]>) => UpdateParticipants
+} = {
+  message: messageParticipants,
+  edited_message: messageParticipants,
+  channel_post: messageParticipants,
+  edited_channel_post: messageParticipants,
+  business_connection: (connection) => ({ chat: undefined, user: connection.user }),
+  business_message: messageParticipants,
+  edited_business_message: messageParticipants,
+  deleted_business_messages: (deleted) => ({ chat: deleted.chat, user: undefined }),
+  message_reaction: (reaction) => ({ chat: reaction.chat, user: reaction.user }),
+  message_reaction_count: (reactionCount) => ({ chat: reactionCount.chat, user: undefined }),
+  inline_query: (query) => ({ chat: undefined, user: query.from }),
+  chosen_inline_result: (result) => ({ chat: undefined, user: result.from }),
+  callback_query: (query) => ({ chat: query.message?.chat, user: query.from }),
+  shipping_query: (query) => ({ chat: undefined, user: query.from }),
+  pre_checkout_query: (query) => ({ chat: undefined, user: query.from }),
+  purchased_paid_media: (purchase) => ({ chat: undefined, user: purchase.from }),
+  poll: () => noParticipants,
+  poll_answer: (answer) => ({ chat: answer.voter_chat, user: answer.user }),
+  my_chat_member: (member) => ({ chat: member.chat, user: member.from }),
+  chat_member: (member) => ({ chat: member.chat, user: member.from }),
+  chat_join_request: (request) => ({ chat: request.chat, user: request.from }),
+  chat_boost: (boost) => ({ chat: boost.chat, user: undefined }),
+  removed_chat_boost: (boost) => ({ chat: boost.chat, user: undefined })
+}
+
+const participantsOf = <K extends UpdateType>(update: Update, type: K): UpdateParticipants => {
+  const payload = update[type]
+  return payload === undefined ? noParticipants : updateParticipants[type](payload)
+}
+
+/**
+ * Builds the middleware context for an update
+ * @param update The update being processed
+ * @returns The context with the chat and user extracted from the update's payload
+ */
+export const makeUpdateContext = (update: Update): UpdateContext => {
+  // At most one update type has a payload in any given update
+  const type = updateTypes.find((type) => update[type] !== undefined)
+  const { chat, user } = type === undefined ? noParticipants : participantsOf(update, type)
+  return {
+    update,
+    ...chat ? { chat } : {},
+    ...user ? { user } : {}
+  }
+}
+
+// =============================================================================
+// Middleware Manager
+// =============================================================================
+
+/**
+ * Service to compose middleware around update handling
+ */
+export interface MiddlewareManager {
+  /**
+   * Run an update through the middleware chain
+   * @param update The update to process
+   * @param handler The handler at the end of the chain
+   */
+  run(
+    update: Update,
+    handler: (context: UpdateContext) => Effect.Effect<void, TelegramBotApiRequestError>
+  ): Effect.Effect<void, TelegramBotApiRequestError>
+  /**
+   * Append a middleware to the chain. Middleware run in registration order,
+   * the first registered being the outermost.
+   * @param middleware The middleware to append
+   */
+  use(middleware: Middleware): Effect.Effect<void>
+}
+
+export class MiddlewareManagerContext extends Context.Tag(
+  "@context/MiddlewareManager"
+)<MiddlewareManagerContext, MiddlewareManager>() {}
+
+export const MiddlewareManagerLive = Layer.effect(
+  MiddlewareManagerContext,
+  Effect.gen(function*() {
+    const middlewaresRef = yield* Ref.make<Array<Middleware>>([])
+
+    return MiddlewareManagerContext.of({
+      run: (update, handler) =>
+        Effect.gen(function*() {
+          const middlewares = yield* Ref.get(middlewaresRef)
+          const context = makeUpdateContext(update)
+          // Fold from the innermost middleware outwards so the first registered runs first
+          const chain = middlewares.reduceRight<Effect.Effect<void, TelegramBotApiRequestError>>(
+            (next, middleware) => Effect.suspend(() => middleware(context, next)),
+            Effect.suspend(() => handler(context))
+          )
+          yield* chain
+        }),
+      use: (middleware) => Ref.update(middlewaresRef, (middlewares) => [...middlewares, middleware])
+    })
+  })
+)
@@ -0,0 +1,35 @@
+import { Effect } from "effect"
+import type { Middleware } from "./Middleware.js"
+import type { TelegramBotApi } from "./TelegramBotApi.js"
+
+// Logging middleware
+export const loggingMiddleware: Middleware = (context, next) =>
+  Effect.gen(function*() {
+    yield* Effect.logInfo("Processing update:", context.update)
+    yield* next
+  }).pipe(
+    Effect.annotateLogs({
+      chatId: context.chat?.id,
+      updateId: context.update.update_id,
+      userId: context.user?.id
+    })
+  )
+
+// Error reply middleware, tells the user something went wrong instead of failing the update
+export const makeErrorReplyMiddleware = (telegramBotApi: TelegramBotApi): Middleware => (context, next) =>
+  next.pipe(
+    Effect.catchAll((error) =>
+      Effect.gen(function*() {
+        yield* Effect.logError("Failed to process update", error)
+        if (!context.chat) {
+          return
+        }
+        yield* telegramBotApi.sendMessage({
+          chat_id: context.chat.id,
+          text: "Sorry, something went wrong. Please try again later."
+        }).pipe(
+          Effect.catchAll((replyError) => Effect.logError("Failed to send error reply", replyError))
+        )
+      })
+    )
+  )
@@ -0,0 +1,119 @@
+import { FileSystem, KeyValueStore } from "@effect/platform"
+import { Config, Context, Data, Effect, Layer, Option, Ref } from "effect"
+
+// =============================================================================
+// Offset Store
+// =============================================================================
+
+export class OffsetStoreError extends Data.TaggedError("OffsetStoreError")<{
+  readonly message: string
+  readonly cause?: unknown
+}> {}
+
+/**
+ * Store for the update_id of the last update that was processed, so polling
+ * resumes after it instead of processing updates again after a restart
+ */
+export interface OffsetStore {
+  /**
+   * Get the update_id of the last processed update, or 0 if none was processed
+   */
+  readonly get: Effect.Effect<number, OffsetStoreError>
+  /**
+   * Record that an update was processed
+   * @param updateId The update_id of the processed update
+   */
+  set(updateId: number): Effect.Effect<void, OffsetStoreError>
+}
+
+export class OffsetStoreContext extends Context.Tag(
+  "@context/OffsetStore"
+)<OffsetStoreContext, OffsetStore>() {}
+
+/**
+ * Offset store keeping the offset in memory, lost on restart
+ */
+export const OffsetStoreMemoryLive = Layer.effect(
+  OffsetStoreContext,
+  Effect.gen(function*() {
+    const offsetRef = yield* Ref.make(0)
+
+    return OffsetStoreContext.of({
+      get: Ref.get(offsetRef),
+      set: (updateId) => Ref.set(offsetRef, updateId)
+    })
+  })
+)
+
+/**
+ * Offset store keeping the offset in a file
+ * @param path The path of the file
+ */
+export const makeOffsetStoreFileLive = (path: string) =>
+  Layer.effect(
+    OffsetStoreContext,
+    Effect.gen(function*() {
+      const fileSystem = yield* FileSystem.FileSystem
+
+      return OffsetStoreContext.of({
+        get: fileSystem.readFileString(path).pipe(
+          Effect.map((content) => Number(content.trim()) || 0),
+          Effect.catchTag(
+            "SystemError",
+            (error) => error.reason === "NotFound" ? Effect.succeed(0) : Effect.fail(error)
+          ),
+          Effect.mapError((error) =>
+            new OffsetStoreError({ message: `Failed to read offset: ${error.message}`, cause: error })
+          )
+        ),
+        // Write a temporary file and rename it, so a crash never leaves a truncated offset behind
+        set: (updateId) =>
+          fileSystem.writeFileString(`${path}.tmp`, String(updateId)).pipe(
+            Effect.zipRight(fileSystem.rename(`${path}.tmp`, path)),
+            Effect.mapError((error) =>
+              new OffsetStoreError({ message: `Failed to write offset: ${error.message}`, cause: error })
+            )
+          )
+      })
+    })
+  )
+
+/**
+ * Offset store keeping the offset in a KeyValueStore, e.g. shared by several processes
+ * @param key The key to store the offset under
+ */
+export const makeOffsetStoreKeyValueLive = (key: string) =>
+  Layer.effect(
+    OffsetStoreContext,
+    Effect.gen(function*() {
+      const keyValueStore = yield* KeyValueStore.KeyValueStore
+
+      return OffsetStoreContext.of({
+        get: keyValueStore.get(key).pipe(
+          Effect.map(Option.match({ onNone: () => 0, onSome: (value) => Number(value) || 0 })),
+          Effect.mapError((error) =>
+            new OffsetStoreError({ message: `Failed to read offset: ${error.message}`, cause: error })
+          )
+        ),
+        set: (updateId) =>
+          keyValueStore.set(key, String(updateId)).pipe(
+            Effect.mapError((error) =>
+              new OffsetStoreError({ message: `Failed to write offset: ${error.message}`, cause: error })
+            )
+          )
+      })
+    })
+  )
+
+/**
+ * Offset store kept in the file at TELEGRAM_OFFSET_FILE when it is set, in memory otherwise
+ */
+export const OffsetStoreLive = Layer.unwrapEffect(
+  Effect.gen(function*() {
+    const path = yield* Config.option(Config.string("TELEGRAM_OFFSET_FILE"))
+    return Option.match(path, {
+      onNone: () => OffsetStoreMemoryLive,
+      onSome: makeOffsetStoreFileLive
+    })
+  })
+)
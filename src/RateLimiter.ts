@@ -0,0 +1,156 @@
+import { Clock, Config, Context, Duration, Effect, Layer, Ref } from "effect"
+
+// =============================================================================
+// Configuration Layer
+// =============================================================================
+
+/**
+ * Configuration for the outgoing rate limiter, defaulting to Telegram's published limits
+ * @see https://core.telegram.org/bots/faq#my-bot-is-hitting-limits-how-do-i-avoid-this
+ */
+export interface RateLimiterConfig {
+  /** Maximum messages per second across all chats */
+  readonly globalPerSecond: number
+  /** Maximum messages per minute to a single group, supergroup or channel */
+  readonly groupChatPerMinute: number
+  /** Maximum messages per second to a single private chat */
+  readonly privateChatPerSecond: number
+}
+
+export class RateLimiterConfigContext extends Context.Tag(
+  "@context/RateLimiterConfig"
+)<RateLimiterConfigContext, RateLimiterConfig>() {}
+
+/**
+ * Configuration layer that loads settings from environment variables
+ */
+export const RateLimiterConfigLive = Layer.effect(
+  RateLimiterConfigContext,
+  Effect.gen(function*() {
+    const globalPerSecond = yield* Config.withDefault(
+      Config.number("TELEGRAM_RATE_LIMIT_GLOBAL_PER_SECOND").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      30
+    )
+    const groupChatPerMinute = yield* Config.withDefault(
+      Config.number("TELEGRAM_RATE_LIMIT_GROUP_CHAT_PER_MINUTE").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      20
+    )
+    const privateChatPerSecond = yield* Config.withDefault(
+      Config.number("TELEGRAM_RATE_LIMIT_PRIVATE_CHAT_PER_SECOND").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      1
+    )
+
+    return RateLimiterConfigContext.of({
+      globalPerSecond,
+      groupChatPerMinute,
+      privateChatPerSecond
+    })
+  })
+)
+
+// =============================================================================
+// Rate Limiter
+// =============================================================================
+
+/**
+ * Service throttling outgoing messages before they leave the process
+ */
+export interface RateLimiter {
+  /**
+   * Wait for a free slot to send a message to a chat. Callers are served in
+   * the order they asked for a slot.
+   * @param chatId The target chat, or undefined for requests not bound to a chat
+   */
+  acquire(chatId: number | string | undefined): Effect.Effect<void>
+  /**
+   * Hold back further messages to a chat after Telegram answered with 429
+   * @param chatId The target chat, or undefined to hold back every chat
+   * @param retryAfter How long Telegram asked to wait
+   */
+  penalize(chatId: number | string | undefined, retryAfter: Duration.DurationInput): Effect.Effect<void>
+  /**
+   * The number of requests currently waiting for a slot
+   */
+  readonly queueDepth: Effect.Effect<number>
+}
+
+export class RateLimiterContext extends Context.Tag(
+  "@context/RateLimiter"
+)<RateLimiterContext, RateLimiter>() {}
+
+const GLOBAL_KEY = "global"
+
+// Prune slots that are in the past once this many chats are tracked
+const MAX_TRACKED_CHATS = 10_000
+
+export const RateLimiterLive = Layer.effect(
+  RateLimiterContext,
+  Effect.gen(function*() {
+    const rateLimiterConfig = yield* RateLimiterConfigContext
+    // The earliest time, in milliseconds, the next message may be sent per key
+    const slotsRef = yield* Ref.make(new Map<string, number>())
+    const queueDepthRef = yield* Ref.make(0)
+
+    const globalInterval = 1000 / rateLimiterConfig.globalPerSecond
+    const groupChatInterval = 60_000 / rateLimiterConfig.groupChatPerMinute
+    const privateChatInterval = 1000 / rateLimiterConfig.privateChatPerSecond
+
+    // Private chats have positive ids, groups and channels negative ids or an @username
+    const chatInterval = (chatId: number | string) =>
+      typeof chatId === "number" && chatId > 0 ? privateChatInterval : groupChatInterval
+
+    // Reserve the next slot for a key and wait until it is due
+    const waitForSlot = (key: string, interval: number) =>
+      Effect.gen(function*() {
+        const now = yield* Clock.currentTimeMillis
+        const slot = yield* Ref.modify(slotsRef, (slots) => {
+          if (slots.size > MAX_TRACKED_CHATS) {
+            for (const [slotKey, slotTime] of slots) {
+              if (slotTime < now) {
+                slots.delete(slotKey)
+              }
+            }
+          }
+          const next = Math.max(now, slots.get(key) ?? 0)
+          slots.set(key, next + interval)
+          return [next, slots]
+        })
+        if (slot > now) {
+          yield* Effect.sleep(Duration.millis(slot - now))
+        }
+      })
+
+    return RateLimiterContext.of({
+      acquire: (chatId) =>
+        Effect.acquireUseRelease(
+          Ref.update(queueDepthRef, (depth) => depth + 1),
+          () =>
+            Effect.gen(function*() {
+              // Wait for the chat first, so a throttled chat does not hold global slots
+              if (chatId !== undefined) {
+                yield* waitForSlot(String(chatId), chatInterval(chatId))
+              }
+              yield* waitForSlot(GLOBAL_KEY, globalInterval)
+            }),
+          () => Ref.update(queueDepthRef, (depth) => depth - 1)
+        ),
+      penalize: (chatId, retryAfter) =>
+        Effect.gen(function*() {
+          const now = yield* Clock.currentTimeMillis
+          const until = now + Duration.toMillis(retryAfter)
+          yield* Ref.update(slotsRef, (slots) => {
+            const key = chatId === undefined ? GLOBAL_KEY : String(chatId)
+            slots.set(key, Math.max(until, slots.get(key) ?? 0))
+            return slots
+          })
+        }),
+      queueDepth: Ref.get(queueDepthRef)
+    })
+  })
+)
@@ -6,17 +6,63 @@
  * with proper type safety, error handling, and documentation.
  */
 
-import { FetchHttpClient, HttpClient, HttpClientRequest, type HttpClientResponse } from "@effect/platform"
-import type { HttpClientError, ResponseError } from "@effect/platform/HttpClientError"
-import { Config, Context, Data, Duration, Effect, Layer, pipe, Redacted, Schedule } from "effect"
+import { FileSystem, HttpClient, HttpClientRequest, type HttpClientResponse } from "@effect/platform"
+import type { ResponseError } from "@effect/platform/HttpClientError"
+import {
+  Clock,
+  Config,
+  Context,
+  Data,
+  Deferred,
+  Duration,
+  Effect,
+  Exit,
+  FiberRef,
+  Layer,
+  Metric,
+  ParseResult,
+  pipe,
+  Redacted,
+  Ref,
+  Schedule,
+  Schema,
+  Stream
+} from "effect"
+import { type RateLimiter, RateLimiterContext } from "./RateLimiter.js"
+import {
+  telegramRateLimitCount,
+  telegramRequestCount,
+  telegramRequestDuration,
+  telegramRequestErrorCount
+} from "./TelegramBotApiMetrics.js"
+import { responseSchemas } from "./TelegramBotApiSchema.js"
 
 // =============================================================================
 // Error Types
 // =============================================================================
 
+/**
+ * Details of an error response returned by the Telegram Bot API
+ * Shared by all error types produced from an API response
+ */
+export interface TelegramBotApiErrorDetails {
+  /** Error message describing the issue */
+  readonly message: string
+  /** The API method where the error occurred, if applicable */
+  readonly method?: string
+  /** The error_code returned by the API, if any */
+  readonly errorCode?: number
+  /** The human-readable description returned by the API, if any */
+  readonly description?: string
+  /** Parameters passed to the method that resulted in the error */
+  readonly parameters?: unknown
+  /** The parameters field of the error response, describing how the request can be repeated */
+  readonly responseParameters?: ResponseParameters
+}
+
 /**
  * Base error type for Telegram Bot API operations
- * All specific error types extend this base error
+ * This error is also used when the request could not reach the API at all
  */
 export class TelegramBotApiError extends Data.TaggedError(
   "TelegramBotApiError"
@@ -25,50 +71,49 @@ export class TelegramBotApiError extends Data.TaggedError(
   readonly message: string
   /** The API method where the error occurred, if applicable */
   readonly method?: string
+  /** The underlying error that caused this error, if any */
+  readonly cause?: unknown
 }> {}
 
 /**
  * Error for bot conflict
- * This error is thrown when there are issues with conflict
+ * This error is thrown when another instance is polling with getUpdates, or a webhook is set
  */
 export class TelegramBotApiConflictError extends Data.TaggedError(
   "TelegramBotApiConflictError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for file upload/download issues
+ * This error is thrown when there are issues with file operations
+ */
+export class TelegramBotApiFileError extends Data.TaggedError(
+  "TelegramBotApiFileError"
 )<{
-  /** Error message describing the issue */
+  /** Error message describing the file issue */
   readonly message: string
-  /** The API method where the error occurred, if applicable */
+  /** The API method where the file error occurred, if applicable */
   readonly method?: string
+  /** Name of the file that caused the issue */
+  readonly fileName?: string
+  /** Identifier of the file that caused the issue */
+  readonly fileId?: string
+  /** The underlying error that caused this file error, if any */
+  readonly cause?: unknown
 }> {}
 
-// /**
-//  * Error for file upload/download issues
-//  * This error is thrown when there are issues with file operations
-//  */
-// export class TelegramBotApiFileError extends Data.TaggedError(
-//   "TelegramBotApiFileError"
-// )<{
-//   /** Error message describing the file issue */
-//   readonly message: string
-//   /** The API method where the file error occurred, if applicable */
-//   readonly method?: string
-//   /** Name of the file that caused the issue */
-//   readonly fileName?: string
-// }> {}
-
 /**
  * Error for method-specific issues (e.g., wrong parameters)
  * This error is thrown when the API returns an error specific to a method call
  */
 export class TelegramBotApiMethodError extends Data.TaggedError(
   "TelegramBotApiMethodError"
-)<{
-  /** Error message from the API */
-  readonly message: string
-  /** The API method that resulted in the error */
-  readonly method: string
-  /** Parameters passed to the method that resulted in the error */
-  readonly parameters?: Record<string, unknown>
-}> {}
+)<
+  TelegramBotApiErrorDetails & {
+    /** The API method that resulted in the error */
+    readonly method: string
+  }
+> {}
 
 // /**
 //  * Error for HTTP-related issues (network, timeout, etc.)
@@ -108,14 +153,12 @@ export class TelegramBotApiMethodError extends Data.TaggedError(
  */
 export class TelegramBotApiRateLimitError extends Data.TaggedError(
   "TelegramBotApiRateLimitError"
-)<{
-  /** Error message describing the rate limit issue */
-  readonly message: string
-  /** The API method that triggered the rate limit */
-  readonly method?: string
-  /** Number of seconds to wait before making another request, if provided by the API */
-  readonly retryAfter?: number
-}> {}
+)<
+  TelegramBotApiErrorDetails & {
+    /** Number of seconds to wait before making another request, if provided by the API */
+    readonly retryAfter?: number
+  }
+> {}
 
 /**
  * Error for invalid response from the API
@@ -123,14 +166,14 @@ export class TelegramBotApiRateLimitError extends Data.TaggedError(
  */
 export class TelegramBotApiInvalidResponseError extends Data.TaggedError(
   "TelegramBotApiInvalidResponseError"
-)<{
-  /** Error message describing the invalid response */
-  readonly message: string
-  /** The API method where the invalid response occurred, if applicable */
-  readonly method?: string
-  /** The actual response that was considered invalid */
-  readonly response?: unknown
-}> {}
+)<
+  TelegramBotApiErrorDetails & {
+    /** The actual response that was considered invalid */
+    readonly response?: unknown
+    /** The path to the first invalid value in the response, when schema decoding failed */
+    readonly path?: ReadonlyArray<PropertyKey>
+  }
+> {}
 
 /**
  * Error for unauthorized access to the API
@@ -138,12 +181,210 @@ export class TelegramBotApiInvalidResponseError extends Data.TaggedError(
  */
 export class TelegramBotApiUnauthorizedError extends Data.TaggedError(
   "TelegramBotApiUnauthorizedError"
-)<{
-  /** Error message describing the authorization issue */
-  readonly message: string
-  /** The API method where the unauthorized access occurred, if applicable */
-  readonly method?: string
-}> {}
+)<TelegramBotApiErrorDetails> {}
+
+// =============================================================================
+// Well-known Error Types
+// =============================================================================
+
+/**
+ * Error for a chat that does not exist or the bot has no access to
+ * Description: "Bad Request: chat not found"
+ */
+export class TelegramBotApiChatNotFoundError extends Data.TaggedError(
+  "TelegramBotApiChatNotFoundError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for a user that does not exist or is unknown to the bot
+ * Description: "Bad Request: user not found"
+ */
+export class TelegramBotApiUserNotFoundError extends Data.TaggedError(
+  "TelegramBotApiUserNotFoundError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for an edit that would leave the message unchanged
+ * Description: "Bad Request: message is not modified"
+ */
+export class TelegramBotApiMessageNotModifiedError extends Data.TaggedError(
+  "TelegramBotApiMessageNotModifiedError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for editing a message that does not exist anymore
+ * Description: "Bad Request: message to edit not found"
+ */
+export class TelegramBotApiMessageToEditNotFoundError extends Data.TaggedError(
+  "TelegramBotApiMessageToEditNotFoundError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for deleting a message that does not exist anymore
+ * Description: "Bad Request: message to delete not found"
+ */
+export class TelegramBotApiMessageToDeleteNotFoundError extends Data.TaggedError(
+  "TelegramBotApiMessageToDeleteNotFoundError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for replying to a message that does not exist anymore
+ * Description: "Bad Request: message to be replied not found"
+ */
+export class TelegramBotApiReplyMessageNotFoundError extends Data.TaggedError(
+  "TelegramBotApiReplyMessageNotFoundError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for editing a message the bot is not allowed to edit
+ * Description: "Bad Request: message can't be edited"
+ */
+export class TelegramBotApiMessageCantBeEditedError extends Data.TaggedError(
+  "TelegramBotApiMessageCantBeEditedError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for deleting a message the bot is not allowed to delete
+ * Description: "Bad Request: message can't be deleted"
+ */
+export class TelegramBotApiMessageCantBeDeletedError extends Data.TaggedError(
+  "TelegramBotApiMessageCantBeDeletedError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for sending a message without text
+ * Description: "Bad Request: message text is empty"
+ */
+export class TelegramBotApiMessageTextEmptyError extends Data.TaggedError(
+  "TelegramBotApiMessageTextEmptyError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for answering a callback or inline query too late or with an unknown id
+ * Description: "Bad Request: query is too old and response timeout expired or query ID is invalid"
+ */
+export class TelegramBotApiQueryTooOldError extends Data.TaggedError(
+  "TelegramBotApiQueryTooOldError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for a file_id that is malformed or belongs to another bot
+ * Description: "Bad Request: wrong file identifier/HTTP URL specified"
+ */
+export class TelegramBotApiWrongFileIdError extends Data.TaggedError(
+  "TelegramBotApiWrongFileIdError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for a group that was upgraded to a supergroup
+ * The new chat identifier is in responseParameters.migrate_to_chat_id
+ * Description: "Bad Request: group chat was upgraded to a supergroup chat"
+ */
+export class TelegramBotApiChatMigratedError extends Data.TaggedError(
+  "TelegramBotApiChatMigratedError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for an action the bot lacks the administrator rights for
+ * Description: "Bad Request: not enough rights to ..."
+ */
+export class TelegramBotApiNotEnoughRightsError extends Data.TaggedError(
+  "TelegramBotApiNotEnoughRightsError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for messaging a user who blocked the bot
+ * Description: "Forbidden: bot was blocked by the user"
+ */
+export class TelegramBotApiBotBlockedError extends Data.TaggedError(
+  "TelegramBotApiBotBlockedError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for messaging a group, supergroup or channel the bot was removed from
+ * Description: "Forbidden: bot was kicked from the group chat"
+ */
+export class TelegramBotApiBotKickedError extends Data.TaggedError(
+  "TelegramBotApiBotKickedError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for messaging a user whose account was deleted
+ * Description: "Forbidden: user is deactivated"
+ */
+export class TelegramBotApiUserDeactivatedError extends Data.TaggedError(
+  "TelegramBotApiUserDeactivatedError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Error for messaging a user who never started a conversation with the bot
+ * Description: "Forbidden: bot can't initiate conversation with a user"
+ */
+export class TelegramBotApiCantInitiateConversationError extends Data.TaggedError(
+  "TelegramBotApiCantInitiateConversationError"
+)<TelegramBotApiErrorDetails> {}
+
+/**
+ * Union of the well-known error descriptions exposed as distinct error types
+ */
+export type TelegramBotApiKnownError =
+  | TelegramBotApiBotBlockedError
+  | TelegramBotApiBotKickedError
+  | TelegramBotApiCantInitiateConversationError
+  | TelegramBotApiChatMigratedError
+  | TelegramBotApiChatNotFoundError
+  | TelegramBotApiMessageCantBeDeletedError
+  | TelegramBotApiMessageCantBeEditedError
+  | TelegramBotApiMessageNotModifiedError
+  | TelegramBotApiMessageTextEmptyError
+  | TelegramBotApiMessageToDeleteNotFoundError
+  | TelegramBotApiMessageToEditNotFoundError
+  | TelegramBotApiNotEnoughRightsError
+  | TelegramBotApiQueryTooOldError
+  | TelegramBotApiReplyMessageNotFoundError
+  | TelegramBotApiUserDeactivatedError
+  | TelegramBotApiUserNotFoundError
+  | TelegramBotApiWrongFileIdError
+
+/**
+ * Catalogue of well-known error descriptions, matched case-insensitively as substrings
+ * The first matching entry wins, so more specific descriptions come first
+ */
+const knownErrors: ReadonlyArray<
+  readonly [string, new(details: TelegramBotApiErrorDetails) => TelegramBotApiKnownError]
+> = [
+  ["bot was blocked by the user", TelegramBotApiBotBlockedError],
+  ["bot was kicked from", TelegramBotApiBotKickedError],
+  ["bot can't initiate conversation", TelegramBotApiCantInitiateConversationError],
+  ["group chat was upgraded to a supergroup", TelegramBotApiChatMigratedError],
+  ["chat not found", TelegramBotApiChatNotFoundError],
+  ["message can't be deleted", TelegramBotApiMessageCantBeDeletedError],
+  ["message can't be edited", TelegramBotApiMessageCantBeEditedError],
+  ["message is not modified", TelegramBotApiMessageNotModifiedError],
+  ["message text is empty", TelegramBotApiMessageTextEmptyError],
+  ["message to delete not found", TelegramBotApiMessageToDeleteNotFoundError],
+  ["message to edit not found", TelegramBotApiMessageToEditNotFoundError],
+  ["not enough rights", TelegramBotApiNotEnoughRightsError],
+  ["query is too old", TelegramBotApiQueryTooOldError],
+  ["message to be replied not found", TelegramBotApiReplyMessageNotFoundError],
+  ["user is deactivated", TelegramBotApiUserDeactivatedError],
+  ["user not found", TelegramBotApiUserNotFoundError],
+  ["wrong file identifier", TelegramBotApiWrongFileIdError],
+  ["wrong remote file identifier", TelegramBotApiWrongFileIdError]
+]
+
+/**
+ * Union of every error a Telegram Bot API method can fail with
+ */
+export type TelegramBotApiRequestError =
+  | TelegramBotApiConflictError
+  | TelegramBotApiError
+  | TelegramBotApiFileError
+  | TelegramBotApiInvalidResponseError
+  | TelegramBotApiKnownError
+  | TelegramBotApiMethodError
+  | TelegramBotApiRateLimitError
+  | TelegramBotApiUnauthorizedError
 
 // =============================================================================
 // Type Definitions
@@ -211,6 +452,49 @@ export interface Update {
   removed_chat_boost?: ChatBoostRemoved
 }
 
+/**
+ * The name of one of the optional payload fields of an Update, as accepted by allowed_updates
+ */
+export type UpdateType = Exclude<keyof Update, "update_id">
+
+// Keyed by every update type, so the compiler notices a type missing from updateTypes
+const updateTypeKeys: { readonly [K in UpdateType]: null } = {
+  message: null,
+  edited_message: null,
+  channel_post: null,
+  edited_channel_post: null,
+  business_connection: null,
+  business_message: null,
+  edited_business_message: null,
+  deleted_business_messages: null,
+  message_reaction: null,
+  message_reaction_count: null,
+  inline_query: null,
+  chosen_inline_result: null,
+  callback_query: null,
+  shipping_query: null,
+  pre_checkout_query: null,
+  purchased_paid_media: null,
+  poll: null,
+  poll_answer: null,
+  my_chat_member: null,
+  chat_member: null,
+  chat_join_request: null,
+  chat_boost: null,
+  removed_chat_boost: null
+}
+
+/**
+ * Every update type, in the order of the fields of Update
+ */
+export const updateTypes = Object.keys(updateTypeKeys) as ReadonlyArray<UpdateType>
+
+/**
+ * Determine if a string names an update type
+ * @param type The string to check
+ */
+export const isUpdateType = (type: string): type is UpdateType => Object.hasOwn(updateTypeKeys, type)
+
 /**
  * Use this method to receive incoming updates using long polling (wiki). Returns an Array of Update objects.
  *
@@ -227,7 +511,7 @@ export interface GetUpdatesParams {
   /** Timeout in seconds for long polling. Defaults to 0, i.e. usual short polling. Should be positive, short polling should be used for testing purposes only. */
   timeout?: Integer
   /** A JSON-serialized list of the update types you want your bot to receive. For example, specify ["message", "edited_channel_post", "callback_query"] to only receive updates of these types. See Update for a complete list of available update types. Specify an empty list to receive all update types except chat_member, message_reaction, and message_reaction_count (default). If not specified, the previous setting will be used.  Please note that this parameter doesn't affect updates created before the call to getUpdates, so unwanted updates may be received for a short period of time. */
-  allowed_updates?: Array<"callback_query" | "edited_channel_post" | "message">
+  allowed_updates?: Array<UpdateType>
 }
 
 /**
@@ -3366,7 +3650,7 @@ export interface InputMediaPhoto {
   /** Type of the result, must be photo */
   type: String
   /** File to send. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass "attach://<file_attach_name>" to upload a new one using multipart/form-data under <file_attach_name> name. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  media: String
+  media: InputFile | String
   /** Optional. Caption of the photo to be sent, 0-1024 characters after entities parsing */
   caption?: String
   /** Optional. Mode for parsing entities in the photo caption. See formatting options for more details. */
@@ -3387,11 +3671,11 @@ export interface InputMediaVideo {
   /** Type of the result, must be video */
   type: String
   /** File to send. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass "attach://<file_attach_name>" to upload a new one using multipart/form-data under <file_attach_name> name. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  media: String
+  media: InputFile | String
   /** Optional. Thumbnail of the file sent; can be ignored if thumbnail generation for the file is supported server-side. The thumbnail should be in JPEG format and less than 200 kB in size. A thumbnail's width and height should not exceed 320. Ignored if the file is not uploaded using multipart/form-data. Thumbnails can't be reused and can be only uploaded as a new file, so you can pass "attach://<file_attach_name>" if the thumbnail was uploaded using multipart/form-data under <file_attach_name>. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  thumbnail?: String
+  thumbnail?: InputFile | String
   /** Optional. Cover for the video in the message. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass "attach://<file_attach_name>" to upload a new one using multipart/form-data under <file_attach_name> name. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  cover?: String
+  cover?: InputFile | String
   /** Optional. Start timestamp for the video in the message */
   start_timestamp?: Integer
   /** Optional. Caption of the video to be sent, 0-1024 characters after entities parsing */
@@ -3422,9 +3706,9 @@ export interface InputMediaAnimation {
   /** Type of the result, must be animation */
   type: String
   /** File to send. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass "attach://<file_attach_name>" to upload a new one using multipart/form-data under <file_attach_name> name. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  media: String
+  media: InputFile | String
   /** Optional. Thumbnail of the file sent; can be ignored if thumbnail generation for the file is supported server-side. The thumbnail should be in JPEG format and less than 200 kB in size. A thumbnail's width and height should not exceed 320. Ignored if the file is not uploaded using multipart/form-data. Thumbnails can't be reused and can be only uploaded as a new file, so you can pass "attach://<file_attach_name>" if the thumbnail was uploaded using multipart/form-data under <file_attach_name>. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  thumbnail?: String
+  thumbnail?: InputFile | String
   /** Optional. Caption of the animation to be sent, 0-1024 characters after entities parsing */
   caption?: String
   /** Optional. Mode for parsing entities in the animation caption. See formatting options for more details. */
@@ -3451,9 +3735,9 @@ export interface InputMediaAudio {
   /** Type of the result, must be audio */
   type: String
   /** File to send. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass "attach://<file_attach_name>" to upload a new one using multipart/form-data under <file_attach_name> name. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  media: String
+  media: InputFile | String
   /** Optional. Thumbnail of the file sent; can be ignored if thumbnail generation for the file is supported server-side. The thumbnail should be in JPEG format and less than 200 kB in size. A thumbnail's width and height should not exceed 320. Ignored if the file is not uploaded using multipart/form-data. Thumbnails can't be reused and can be only uploaded as a new file, so you can pass "attach://<file_attach_name>" if the thumbnail was uploaded using multipart/form-data under <file_attach_name>. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  thumbnail?: String
+  thumbnail?: InputFile | String
   /** Optional. Caption of the audio to be sent, 0-1024 characters after entities parsing */
   caption?: String
   /** Optional. Mode for parsing entities in the audio caption. See formatting options for more details. */
@@ -3476,9 +3760,9 @@ export interface InputMediaDocument {
   /** Type of the result, must be document */
   type: String
   /** File to send. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass "attach://<file_attach_name>" to upload a new one using multipart/form-data under <file_attach_name> name. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  media: String
+  media: InputFile | String
   /** Optional. Thumbnail of the file sent; can be ignored if thumbnail generation for the file is supported server-side. The thumbnail should be in JPEG format and less than 200 kB in size. A thumbnail's width and height should not exceed 320. Ignored if the file is not uploaded using multipart/form-data. Thumbnails can't be reused and can be only uploaded as a new file, so you can pass "attach://<file_attach_name>" if the thumbnail was uploaded using multipart/form-data under <file_attach_name>. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  thumbnail?: String
+  thumbnail?: InputFile | String
   /** Optional. Caption of the document to be sent, 0-1024 characters after entities parsing */
   caption?: String
   /** Optional. Mode for parsing entities in the document caption. See formatting options for more details. */
@@ -3491,14 +3775,42 @@ export interface InputMediaDocument {
 
 /**
  * This object represents the contents of a file to be uploaded. Must be posted using multipart/form-data in the usual way that files are uploaded via the browser.
+ * In local mode, a file:// URI can be passed instead, which the local Bot API server reads from its own filesystem.
  * @see https://core.telegram.org/bots/api#inputfile
  */
-export interface InputFile {
+export type InputFile = InputFileContent | InputFilePath | InputFileStream
+
+/**
+ * A file to be uploaded whose contents are held in memory
+ */
+export interface InputFileContent {
   content: string | Buffer
   filename: string
   mime_type: string
 }
 
+/**
+ * A file to be uploaded that is streamed from the filesystem
+ */
+export interface InputFilePath {
+  /** Path of the file to upload */
+  path: string
+  /** Optional. Name of the file sent to Telegram, defaults to the last segment of the path */
+  filename?: string
+  mime_type: string
+}
+
+/**
+ * A file to be uploaded that is streamed from an Effect Stream
+ */
+export interface InputFileStream {
+  stream: Stream.Stream<Uint8Array, unknown>
+  filename: string
+  mime_type: string
+  /** Optional. Size of the file in bytes, lets the request be sent with a Content-Length */
+  size?: number
+}
+
 /**
  * This object describes the paid media to be sent. Currently, it can be one of InputPaidMediaPhoto, InputPaidMediaVideo
  * @see https://core.telegram.org/bots/api#inputpaidmedia
@@ -3513,7 +3825,7 @@ export interface InputPaidMediaPhoto {
   /** Type of the media, must be photo */
   type: String
   /** File to send. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass "attach://<file_attach_name>" to upload a new one using multipart/form-data under <file_attach_name> name. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  media: String
+  media: InputFile | String
 }
 
 /**
@@ -3524,11 +3836,11 @@ export interface InputPaidMediaVideo {
   /** Type of the media, must be video */
   type: String
   /** File to send. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass "attach://<file_attach_name>" to upload a new one using multipart/form-data under <file_attach_name> name. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  media: String
+  media: InputFile | String
   /** Optional. Thumbnail of the file sent; can be ignored if thumbnail generation for the file is supported server-side. The thumbnail should be in JPEG format and less than 200 kB in size. A thumbnail's width and height should not exceed 320. Ignored if the file is not uploaded using multipart/form-data. Thumbnails can't be reused and can be only uploaded as a new file, so you can pass "attach://<file_attach_name>" if the thumbnail was uploaded using multipart/form-data under <file_attach_name>. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  thumbnail?: String
+  thumbnail?: InputFile | String
   /** Optional. Cover for the video in the message. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass "attach://<file_attach_name>" to upload a new one using multipart/form-data under <file_attach_name> name. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  cover?: String
+  cover?: InputFile | String
   /** Optional. Start timestamp for the video in the message */
   start_timestamp?: Integer
   /** Optional. Video width */
@@ -3557,7 +3869,7 @@ export interface InputProfilePhotoStatic {
   /** Type of the profile photo, must be static */
   type: String
   /** The static profile photo. Profile photos can't be reused and can only be uploaded as a new file, so you can pass "attach://<file_attach_name>" if the photo was uploaded using multipart/form-data under <file_attach_name>. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  photo: String
+  photo: InputFile | String
 }
 
 /**
@@ -3568,7 +3880,7 @@ export interface InputProfilePhotoAnimated {
   /** Type of the profile photo, must be animated */
   type: String
   /** The animated profile photo. Profile photos can't be reused and can only be uploaded as a new file, so you can pass "attach://<file_attach_name>" if the photo was uploaded using multipart/form-data under <file_attach_name>. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  animation: String
+  animation: InputFile | String
   /** Optional. Timestamp in seconds of the frame that will be used as the static profile photo. Defaults to 0.0. */
   main_frame_timestamp?: Float
 }
@@ -3587,7 +3899,7 @@ export interface InputStoryContentPhoto {
   /** Type of the content, must be photo */
   type: String
   /** The photo to post as a story. The photo must be of the size 1080x1920 and must not exceed 10 MB. The photo can't be reused and can only be uploaded as a new file, so you can pass "attach://<file_attach_name>" if the photo was uploaded using multipart/form-data under <file_attach_name>. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  photo: String
+  photo: InputFile | String
 }
 
 /**
@@ -3598,7 +3910,7 @@ export interface InputStoryContentVideo {
   /** Type of the content, must be video */
   type: String
   /** The video to post as a story. The video must be of the size 720x1280, streamable, encoded with H.265 codec, with key frames added each second in the MPEG4 format, and must not exceed 30 MB. The video can't be reused and can only be uploaded as a new file, so you can pass "attach://<file_attach_name>" if the video was uploaded using multipart/form-data under <file_attach_name>. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  video: String
+  video: InputFile | String
   /** Optional. Precise duration of the video in seconds; 0-60 */
   duration?: Float
   /** Optional. Timestamp in seconds of the frame that will be used as the static cover for the story. Defaults to 0.0. */
@@ -4132,7 +4444,7 @@ export interface SendMediaGroupParams {
   /** Identifier of the direct messages topic to which the messages will be sent; required if the messages are sent to a direct messages chat */
   direct_messages_topic_id?: Integer
   /** A JSON-serialized array describing messages to be sent, must include 2-10 items */
-  media: Array<InputMediaVideo>
+  media: Array<InputMediaAudio | InputMediaDocument | InputMediaPhoto | InputMediaVideo>
   /** Sends messages silently. Users will receive a notification with no sound. */
   disable_notification?: Boolean
   /** Protects the contents of the sent messages from forwarding and saving */
@@ -5756,7 +6068,7 @@ export interface MaskPosition {
  */
 export interface InputSticker {
   /** The added sticker. Pass a file_id as a String to send a file that already exists on the Telegram servers, pass an HTTP URL as a String for Telegram to get a file from the Internet, or pass "attach://<file_attach_name>" to upload a new file using multipart/form-data under <file_attach_name> name. Animated and video stickers can't be uploaded via HTTP URL. [More information on Sending Files](https://core.telegram.org/bots/api#sending-files) */
-  sticker: String
+  sticker: InputFile | String
   /** Format of the added sticker, must be one of "static" for a .WEBP or .PNG image, "animated" for a .TGS animation, "video" for a .WEBM video */
   format: String
   /** List of 1-20 emoji associated with the sticker */
@@ -7717,43 +8029,157 @@ export interface GameHighScore {
   score: Integer
 }
 
+// =============================================================================
+// Per-call Options
+// =============================================================================
+
+/**
+ * Options overriding the configuration for the Telegram Bot API calls made in their scope.
+ * A call is cancelled by interrupting it, which aborts its HTTP request.
+ */
+export interface TelegramRequestOptions {
+  /**
+   * Retry failed requests whose outcome is unknown, such as timeouts. Defaults to true for the methods
+   * that are safe to repeat (get*, edit*, answer*, delete* and set*), and to false for the others
+   */
+  readonly idempotent?: boolean
+  /**
+   * Key of a call that is not safe to repeat, such as sendMessage. A later call with the same key
+   * returns the result of the first successful one instead of sending again, for the configured
+   * idempotency TTL. The key applies to every such call in scope, so wrap a single call with it.
+   */
+  readonly idempotencyKey?: string
+  /** Schedule of retries, replacing retryAttempts and retryDelay. Rate limited requests still wait for retry_after */
+  readonly retrySchedule?: Schedule.Schedule<unknown, TelegramBotApiRequestError>
+  /** HTTP timeout of each request, replacing the configured timeout and the long polling timeout of getUpdates */
+  readonly timeout?: Duration.DurationInput
+}
+
+/**
+ * The options of the Telegram Bot API calls made by the current fiber
+ */
+export const currentTelegramRequestOptions: FiberRef.FiberRef<TelegramRequestOptions> = FiberRef.unsafeMake({})
+
+/**
+ * Run an effect with options for the Telegram Bot API calls it makes, on top of the options already in place
+ * @example
+ * telegramBotApi.sendChatAction({ action: "typing", chat_id }).pipe(
+ *   withTelegramRequestOptions({ retrySchedule: Schedule.stop, timeout: "2 seconds" })
+ * )
+ */
+export const withTelegramRequestOptions =
+  (options: TelegramRequestOptions) => <A, E, R>(self: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.locallyWith(self, currentTelegramRequestOptions, (current) => ({ ...current, ...options }))
+
 // =============================================================================
 // HTTP Client and Request Handling Utilities
 // =============================================================================
 
+// Largest upload accepted by the cloud Bot API server and by a local one
+const CLOUD_MAX_UPLOAD_SIZE = 50 * 1024 * 1024
+const LOCAL_MAX_UPLOAD_SIZE = 2000 * 1024 * 1024
+
+// Parameters taking an InputFile or a String, the only ones a file:// URI is meaningful in
+const FILE_PARAMS: ReadonlySet<string> = new Set([
+  "animation",
+  "audio",
+  "cover",
+  "document",
+  "media",
+  "photo",
+  "sticker",
+  "thumbnail",
+  "video",
+  "video_note",
+  "voice"
+])
+
+/**
+ * Finds a file:// URI passed in place of a file, at any depth of the parameters
+ * @param value The parameters to search
+ * @returns The first file:// URI found, if any
+ */
+const findFileUri = (value: unknown): string | undefined => {
+  if (typeof value !== "object" || value === null) {
+    return undefined
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const found = typeof item === "string"
+      ? FILE_PARAMS.has(key) && item.startsWith("file://") ? item : undefined
+      : findFileUri(item)
+    if (found) {
+      return found
+    }
+  }
+  return undefined
+}
+
 /**
  * Creates an HTTP request for a Telegram Bot API method
  * @param method The Telegram Bot API method name
  * @param params The parameters for the method
  * @param config The configuration object
+ * @param fileSystem The filesystem to read uploaded files from
  * @returns An HttpClientRequest
  */
 const makeTelegramRequest = (
   method: string,
   params: any,
-  config: TelegramBotApiConfig
-): HttpClientRequest.HttpClientRequest => {
+  config: TelegramBotApiConfig,
+  fileSystem: FileSystem.FileSystem
+): Effect.Effect<HttpClientRequest.HttpClientRequest, TelegramBotApiFileError> => {
   const tokenValue = Redacted.value(config.token)
   const url = `${config.apiBaseUrl}${tokenValue}/${method}`
 
+  // A local Bot API server reads file:// URIs from its own filesystem, the cloud server rejects them
+  const fileUri = config.localMode ? undefined : findFileUri(params)
+  if (fileUri) {
+    return Effect.fail(
+      new TelegramBotApiFileError({
+        message: "file:// URIs are only supported by a local Bot API server",
+        method,
+        fileName: fileUri
+      })
+    )
+  }
+
   // Determine if we need multipart/form-data (for file uploads)
   const hasFile = containsFile(params)
 
   if (hasFile) {
-    // For file uploads, use multipart/form-data
-    const formData = buildFormData(params)
-    return HttpClientRequest.post(url).pipe(
-      HttpClientRequest.bodyFormData(formData)
-      // HttpClientRequest.timeout(config.timeout)
+    // For file uploads, stream a multipart/form-data body so files are never held in memory as a whole
+    return Effect.map(
+      buildMultipartBody(
+        method,
+        params,
+        fileSystem,
+        config.localMode ? LOCAL_MAX_UPLOAD_SIZE : CLOUD_MAX_UPLOAD_SIZE
+      ),
+      ({ boundary, contentLength, stream }) =>
+        HttpClientRequest.post(url).pipe(
+          HttpClientRequest.bodyStream(stream, {
+            contentType: `multipart/form-data; boundary=${boundary}`,
+            ...contentLength !== undefined ? { contentLength } : {}
+          })
+        )
     )
   }
   // For regular requests, use JSON
-  return HttpClientRequest.post(url).pipe(
-    HttpClientRequest.bodyUnsafeJson(params)
-    // HttpClientRequest.timeout(config.timeout)
+  return Effect.succeed(
+    HttpClientRequest.post(url).pipe(
+      HttpClientRequest.bodyUnsafeJson(params)
+    )
   )
 }
 
+/**
+ * Determines if a value is an InputFile, whether held in memory, on disk or streamed
+ * @param value The value to check
+ * @returns Boolean indicating if the value is an InputFile
+ */
+const isInputFile = (value: object): value is InputFile =>
+  "mime_type" in value && ("content" in value || "path" in value || "stream" in value)
+
 /**
  * Determines if the parameters contain a file (input file)
  * @param params The parameters to check
@@ -7769,16 +8195,13 @@ const containsFile = (params: unknown): boolean => {
     const value = obj[key]
     if (value && typeof value === "object") {
       // Check if it's an InputFile type
-      if ("content" in value && "filename" in value && "mime_type" in value) {
+      if (isInputFile(value)) {
         return true
       }
       // Recursively check nested objects
       if (containsFile(value)) {
         return true
       }
-    } else if (Array.isArray(value)) {
-      // Check arrays of objects
-      return value.some((item) => containsFile(item))
     }
   }
 
@@ -7786,67 +8209,231 @@ const containsFile = (params: unknown): boolean => {
 }
 
 /**
- * Builds form data for file uploads
- * @param params The parameters to convert to form data
- * @returns FormData object
+ * A part of a multipart/form-data body, with its length when known up front
  */
-const buildFormData = (params: unknown): FormData => {
-  const formData = new FormData()
-  if (typeof params !== "object" || params === null) {
-    return formData
+interface MultipartPart {
+  readonly headers: string
+  readonly stream: Stream.Stream<Uint8Array, unknown>
+  readonly size: number | undefined
+}
+
+const textEncoder = new TextEncoder()
+
+// Quotes and line breaks would end the header value early
+const escapeHeaderValue = (value: string) => value.replace(/"/g, "%22").replace(/\r/g, "%0D").replace(/\n/g, "%0A")
+
+/**
+ * Resolves an InputFile into the contents of its part
+ * @param method The Telegram Bot API method name
+ * @param inputFile The file to upload
+ * @param fileSystem The filesystem to read files from
+ * @returns The file name, contents and size of the part
+ */
+const resolveInputFile = (
+  method: string,
+  inputFile: InputFile,
+  fileSystem: FileSystem.FileSystem
+): Effect.Effect<
+  { filename: string; stream: Stream.Stream<Uint8Array, unknown>; size: number | undefined },
+  TelegramBotApiFileError
+> => {
+  if ("content" in inputFile) {
+    const content = typeof inputFile.content === "string"
+      ? textEncoder.encode(inputFile.content)
+      : new Uint8Array(inputFile.content.buffer, inputFile.content.byteOffset, inputFile.content.byteLength)
+    return Effect.succeed({ filename: inputFile.filename, stream: Stream.succeed(content), size: content.length })
   }
-  const obj = params as Record<string, unknown>
-  for (const key in obj) {
-    const value = obj[key]
-    if (value !== undefined && value !== null) {
-      if (typeof value === "object") {
+  if ("stream" in inputFile) {
+    return Effect.succeed({ filename: inputFile.filename, stream: inputFile.stream, size: inputFile.size })
+  }
+  const filename = inputFile.filename ?? inputFile.path.split(/[\\/]/).pop() ?? inputFile.path
+  // Stat the file up front, so a missing file fails before anything is sent
+  return fileSystem.stat(inputFile.path).pipe(
+    Effect.map((info) => ({ filename, stream: fileSystem.stream(inputFile.path), size: Number(info.size) })),
+    Effect.mapError((error) =>
+      new TelegramBotApiFileError({
+        message: `Failed to read file: ${error.message}`,
+        method,
+        fileName: filename,
+        cause: error
+      })
+    )
+  )
+}
+
+/**
+ * Replaces the files nested in a parameter with "attach://<file_attach_name>" references
+ * @param value The parameter to search for files
+ * @param attachments The files found so far with their attach names, extended in place
+ * @returns The parameter with every nested file replaced by its reference
+ */
+const extractAttachments = (value: unknown, attachments: Array<[string, InputFile]>): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => extractAttachments(item, attachments))
+  }
+  if (typeof value === "object" && value !== null) {
+    if (isInputFile(value)) {
+      const name = `file${attachments.length}`
+      attachments.push([name, value])
+      return `attach://${name}`
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, extractAttachments(item, attachments)])
+    )
+  }
+  return value
+}
+
+/**
+ * Builds a streamed multipart/form-data body for file uploads
+ * @param method The Telegram Bot API method name
+ * @param params The parameters to convert to form data
+ * @param fileSystem The filesystem to read files from
+ * @param maxUploadSize The largest file the server accepts, in bytes
+ * @returns The boundary, the body stream and its length when every part has a known size
+ */
+const buildMultipartBody = (
+  method: string,
+  params: unknown,
+  fileSystem: FileSystem.FileSystem,
+  maxUploadSize: number
+): Effect.Effect<
+  { boundary: string; contentLength: number | undefined; stream: Stream.Stream<Uint8Array, unknown> },
+  TelegramBotApiFileError
+> =>
+  Effect.gen(function*() {
+    const boundary = `----TelegramBotApi${crypto.randomUUID().replace(/-/g, "")}`
+    const parts: Array<MultipartPart> = []
+    const attachments: Array<[string, InputFile]> = []
+    const obj = typeof params === "object" && params !== null ? params as Record<string, unknown> : {}
+    // Files nested in media, stickers or other objects are sent as parts of their own
+    const fields = Object.entries(obj).map(([key, value]): [string, unknown] => [
+      key,
+      typeof value === "object" && value !== null && !isInputFile(value)
+        ? extractAttachments(value, attachments)
+        : value
+    ])
+    for (const [key, value] of [...fields, ...attachments]) {
+      if (value === undefined || value === null) {
+        continue
+      }
+      const name = escapeHeaderValue(key)
+      if (typeof value === "object" && isInputFile(value)) {
         // Handle InputFile objects
-        if ("content" in value && "filename" in value && "mime_type" in value) {
-          // File content as string or buffer
-          const content = (value as { content: string | Buffer }).content
-          const filename = (value as { filename: string }).filename
-          const mime_type = (value as { mime_type: string }).mime_type
-          if (typeof content === "string") {
-            formData.append(key, new Blob([content], { type: mime_type }), filename)
-          } else {
-            // If content is a buffer, convert to Uint8Array first
-            formData.append(key, new Blob([new Uint8Array(content)], { type: mime_type }), filename)
-          }
-        } else if (value instanceof File) {
-          // Handle direct File objects
-          formData.append(key, value)
-        } else if (value instanceof Blob) {
-          // Handle direct Blob objects
-          formData.append(key, value)
-        } else {
-          // For other objects, stringify them
-          formData.append(key, JSON.stringify(value))
+        const { filename, size, stream } = yield* resolveInputFile(method, value, fileSystem)
+        // Files of unknown size are left to the server to reject
+        if (size !== undefined && size > maxUploadSize) {
+          return yield* Effect.fail(
+            new TelegramBotApiFileError({
+              message: `File of ${size} bytes exceeds the maximum upload size of ${maxUploadSize} bytes`,
+              method,
+              fileName: filename
+            })
+          )
         }
+        parts.push({
+          headers: `Content-Disposition: form-data; name="${name}"; filename="${
+            escapeHeaderValue(filename)
+          }"\r\nContent-Type: ${value.mime_type}`,
+          stream,
+          size
+        })
       } else {
-        // For primitive values, append directly
-        formData.append(key, String(value))
+        // For other objects, stringify them, primitive values are appended directly
+        const content = textEncoder.encode(typeof value === "object" ? JSON.stringify(value) : String(value))
+        parts.push({
+          headers: `Content-Disposition: form-data; name="${name}"`,
+          stream: Stream.succeed(content),
+          size: content.length
+        })
       }
     }
+
+    const encodedParts = parts.map((part) => ({
+      head: textEncoder.encode(`--${boundary}\r\n${part.headers}\r\n\r\n`),
+      stream: part.stream,
+      size: part.size
+    }))
+    const crlf = textEncoder.encode("\r\n")
+    const tail = textEncoder.encode(`--${boundary}--\r\n`)
+    const contentLength = encodedParts.reduce<number | undefined>(
+      (total, part) =>
+        total === undefined || part.size === undefined ? undefined : total + part.head.length + part.size + crlf.length,
+      tail.length
+    )
+    const stream = Stream.concat(
+      Stream.flatMap(
+        Stream.fromIterable(encodedParts),
+        (part) => Stream.succeed(part.head).pipe(Stream.concat(part.stream), Stream.concat(Stream.succeed(crlf)))
+      ),
+      Stream.succeed(tail)
+    )
+
+    return { boundary, contentLength, stream }
+  })
+
+/**
+ * Maps an error response from the Telegram API to the most specific error type
+ * @param method The Telegram Bot API method name
+ * @param params The parameters passed to the method
+ * @param json The error response body
+ * @returns The error matching the error code and description
+ */
+const makeTelegramError = (
+  method: string,
+  params: unknown,
+  json: { description: unknown; error_code?: unknown; parameters?: ResponseParameters }
+): Exclude<TelegramBotApiRequestError, TelegramBotApiError | TelegramBotApiInvalidResponseError> => {
+  const errorCode = typeof json.error_code === "number" ? json.error_code : undefined
+  const description = String(json.description)
+  const message = errorCode ? `${errorCode}: ${description}` : description
+  const details: TelegramBotApiErrorDetails = {
+    message,
+    method,
+    description,
+    ...errorCode ? { errorCode } : {},
+    ...params !== undefined ? { parameters: params } : {},
+    ...json.parameters ? { responseParameters: json.parameters } : {}
   }
 
-  return formData
+  // Check for well-known descriptions first, they are more specific than the error code
+  const lowerCaseDescription = description.toLowerCase()
+  const knownError = knownErrors.find(([pattern]) => lowerCaseDescription.includes(pattern))
+  if (knownError) {
+    const [, KnownError] = knownError
+    return new KnownError(details)
+  }
+
+  // Check for specific error conditions
+  if (errorCode === 409 && lowerCaseDescription.includes("conflict")) {
+    return new TelegramBotApiConflictError({ ...details, message: `Bot conflict: ${message}` })
+  } else if (errorCode === 401 || errorCode === 403) {
+    return new TelegramBotApiUnauthorizedError({ ...details, message: `Unauthorized: ${message}` })
+  } else if (errorCode === 429) {
+    const retryAfter = json.parameters?.retry_after
+    return new TelegramBotApiRateLimitError({
+      ...details,
+      message: `Rate limited: ${message}`,
+      ...retryAfter ? { retryAfter } : {}
+    })
+  }
+  return new TelegramBotApiMethodError({ ...details, method })
 }
 
 /**
  * Handles the HTTP response from a Telegram API request
+ * @param method The Telegram Bot API method name
+ * @param params The parameters passed to the method
  * @param response The HTTP response to process
  * @returns The parsed JSON response from Telegram API
  */
 const handleTelegramResponse = <T>(
+  method: string,
+  params: unknown,
   response: HttpClientResponse.HttpClientResponse
 ): Effect.Effect<
   T,
-  | ResponseError
-  | TelegramBotApiConflictError
-  | TelegramBotApiInvalidResponseError
-  | TelegramBotApiMethodError
-  | TelegramBotApiRateLimitError
-  | TelegramBotApiUnauthorizedError,
+  ResponseError | Exclude<TelegramBotApiRequestError, TelegramBotApiError>,
   never
 > => {
   return pipe(
@@ -7868,44 +8455,13 @@ const handleTelegramResponse = <T>(
         "description" in json
       ) {
         // Error response from Telegram API
-        const errorCode = (json as any).error_code ? String((json as any).error_code) : undefined
-        const description = String(json.description)
-        const message = errorCode ? `${errorCode}: ${description}` : description
-
-        // Check for specific error conditions
-        if (
-          errorCode === "409" &&
-          description.toLowerCase().includes("conflict")
-        ) {
-          return Effect.fail(
-            new TelegramBotApiConflictError({ message: `Bot conflict: ${message}` })
-          )
-        } else if (errorCode === "401" || errorCode === "403") {
-          return Effect.fail(
-            new TelegramBotApiUnauthorizedError({ message: `Unauthorized: ${message}` })
-          )
-        } else if (errorCode === "429") {
-          const retryAfter = (json as any).parameters && "retry_after" in (json as any).parameters
-            ? (((json as any).parameters as any).retry_after as number)
-            : undefined
-          return Effect.fail(
-            new TelegramBotApiRateLimitError({
-              message: `Rate limited: ${message}`,
-              ...retryAfter ? { retryAfter } : {}
-            })
-          )
-        }
-        return Effect.fail(
-          new TelegramBotApiMethodError({
-            message,
-            method: ((json as any).parameters?.method as string) || "unknown"
-          })
-        )
+        return Effect.fail(makeTelegramError(method, params, json))
       }
       // Invalid response format
       return Effect.fail(
         new TelegramBotApiInvalidResponseError({
           message: `Invalid response format: ${JSON.stringify(json)}`,
+          method,
           response: json
         })
       )
@@ -7914,52 +8470,279 @@ const handleTelegramResponse = <T>(
 }
 
 /**
- * Executes a Telegram API request with retry logic
+ * Validates the result of a method against its response schema
+ * @param method The Telegram Bot API method name
+ * @param result The result field of the successful response
+ * @returns The result unchanged, including fields the schema does not declare
+ */
+const decodeTelegramResult = <T>(
+  method: string,
+  result: T
+): Effect.Effect<T, TelegramBotApiInvalidResponseError> => {
+  const schema = responseSchemas[method as keyof TelegramBotApi]
+  if (!schema) {
+    return Effect.succeed(result)
+  }
+  return pipe(
+    Schema.decodeUnknown(schema)(result),
+    Effect.as(result),
+    Effect.mapError((error) => {
+      const [issue] = ParseResult.ArrayFormatter.formatErrorSync(error)
+      const path = issue.path.length > 0 ? issue.path.join(".") : "root"
+      return new TelegramBotApiInvalidResponseError({
+        message: `Invalid ${method} response at ${path}: ${issue.message}`,
+        method,
+        path: issue.path,
+        response: result
+      })
+    })
+  )
+}
+
+/**
+ * Services a Telegram API request is executed with
+ */
+interface TelegramRequestContext {
+  readonly config: TelegramBotApiConfig
+  readonly fileSystem: FileSystem.FileSystem
+  readonly httpClient: HttpClient.HttpClient
+  /** The results of the calls made with an idempotency key, by method and key */
+  readonly idempotentResultsRef: Ref.Ref<Map<string, IdempotentResult>>
+  readonly rateLimiter: RateLimiter
+}
+
+/**
+ * The result of a call made with an idempotency key, shared with later calls with the same key
+ */
+interface IdempotentResult {
+  readonly expiresAt: number
+  readonly result: Deferred.Deferred<unknown, TelegramBotApiRequestError>
+}
+
+/**
+ * Determines if a method can be repeated without a visible effect, so a request whose outcome
+ * is unknown may be retried. Methods sending, forwarding or copying messages would duplicate them.
+ * @param method The Telegram Bot API method name
+ * @returns Boolean indicating if the method is safe to retry
+ */
+const isIdempotentMethod = (method: string): boolean => /^(get|edit|answer|delete|set)[A-Z]/.test(method)
+
+/**
+ * Runs a call at most once per idempotency key, calls with the same key share its result
+ * A failed call forgets its key, so the call can be made again
+ * @param key The idempotency key of the call, prefixed with the method
+ * @param call The call to make
+ * @param context The services of the request, holding the results of earlier calls
+ * @returns The result of the call, or of the earlier call with the same key
+ */
+const deduplicate = <T>(
+  key: string,
+  call: Effect.Effect<T, TelegramBotApiRequestError>,
+  { config, idempotentResultsRef }: TelegramRequestContext
+): Effect.Effect<T, TelegramBotApiRequestError> =>
+  Effect.gen(function*() {
+    const now = yield* Clock.currentTimeMillis
+    const result = yield* Deferred.make<unknown, TelegramBotApiRequestError>()
+    const earlier = yield* Ref.modify(idempotentResultsRef, (results) => {
+      for (const [resultKey, { expiresAt }] of results) {
+        if (expiresAt <= now) {
+          results.delete(resultKey)
+        }
+      }
+      const existing = results.get(key)
+      return existing
+        ? [existing.result, results]
+        : [undefined, results.set(key, { expiresAt: now + config.idempotencyTtl, result })]
+    })
+    if (earlier) {
+      return (yield* Deferred.await(earlier)) as T
+    }
+    return yield* call.pipe(
+      Effect.onExit((exit) =>
+        Exit.isSuccess(exit)
+          ? Deferred.done(result, exit)
+          : Ref.update(idempotentResultsRef, (results) => {
+            results.delete(key)
+            return results
+          }).pipe(Effect.zipRight(Deferred.done(result, exit)))
+      )
+    )
+  })
+
+/**
+ * Determines if a method sends a new message to a chat, and so is subject to Telegram's message limits
+ * @param method The Telegram Bot API method name
+ * @returns Boolean indicating if the request must go through the rate limiter
+ */
+const isThrottledMethod = (method: string): boolean =>
+  /^(send|forward|copy)[A-Z]/.test(method) && method !== "sendChatAction"
+
+/**
+ * Extracts the target chat of a request
+ * @param params The parameters for the method
+ * @returns The chat_id parameter, if any
+ */
+const getChatId = (params: unknown): number | string | undefined => {
+  if (typeof params !== "object" || params === null || !("chat_id" in params)) {
+    return undefined
+  }
+  const chatId = params.chat_id
+  return typeof chatId === "number" || typeof chatId === "string" ? chatId : undefined
+}
+
+/**
+ * Computes the HTTP timeout of a request
+ * getUpdates holds the connection open for its long polling timeout, which is added on top
  * @param method The Telegram Bot API method name
  * @param params The parameters for the method
  * @param config The configuration object
+ * @param options The options of the call, whose timeout replaces the computed one
+ * @returns The duration after which the request is abandoned
+ */
+const getRequestTimeout = (
+  method: string,
+  params: unknown,
+  config: TelegramBotApiConfig,
+  options: TelegramRequestOptions
+): Duration.Duration => {
+  if (options.timeout !== undefined) {
+    return Duration.decode(options.timeout)
+  }
+  const longPollTimeout = method === "getUpdates" ? (params as GetUpdatesParams | undefined)?.timeout ?? 0 : 0
+  return Duration.sum(Duration.millis(config.timeout), Duration.seconds(longPollTimeout))
+}
+
+/**
+ * Determines if a request failed for reasons unrelated to the request itself, so repeating it may succeed
+ * Whether such a request was processed is unknown, it timed out or its response was lost
+ * @param error The error the request failed with
+ * @returns Boolean indicating if the error is a timeout, a network failure or a server error
+ */
+const isTransientError = (error: TelegramBotApiRequestError): boolean =>
+  error._tag === "TelegramBotApiError" ||
+  (error._tag === "TelegramBotApiMethodError" && (error.errorCode ?? 0) >= 500)
+
+/**
+ * Gets the error_code Telegram answered a failed request with
+ * @param error The error the request failed with
+ * @returns The error_code, if Telegram answered at all
+ */
+const getErrorCode = (error: TelegramBotApiRequestError): number | undefined =>
+  "errorCode" in error ? error.errorCode : undefined
+
+/**
+ * Executes a Telegram API request with retry logic, traced in a telegram.<method> span and recorded in the metrics
+ * @param method The Telegram Bot API method name
+ * @param params The parameters for the method
+ * @param context The services to execute the request with
  * @returns The result of the API call
  */
 const executeTelegramRequest = <T>(
   method: string,
   params: unknown,
-  config: TelegramBotApiConfig
-): Effect.Effect<T, TelegramBotApiError> => {
-  const request = makeTelegramRequest(method, params, config)
+  context: TelegramRequestContext
+): Effect.Effect<T, TelegramBotApiRequestError> => {
+  const { config, fileSystem, httpClient, rateLimiter } = context
+  const throttled = isThrottledMethod(method)
+  const chatId = getChatId(params)
+
+  const attempt = (timeout: Duration.Duration) =>
+    pipe(
+      throttled ? rateLimiter.acquire(chatId) : Effect.void,
+      Effect.zipRight(
+        pipe(
+          makeTelegramRequest(method, params, config, fileSystem),
+          Effect.flatMap((request) => httpClient.execute(request)),
+          Effect.tap((response) => Effect.annotateCurrentSpan("http.response.status_code", response.status)),
+          Effect.flatMap((response) => handleTelegramResponse<T>(method, params, response)),
+          Effect.flatMap((result) =>
+            config.strictDecoding ? decodeTelegramResult(method, result) : Effect.succeed(result)
+          ),
+          Effect.timeoutFail({
+            duration: timeout,
+            onTimeout: () =>
+              new TelegramBotApiError({ message: `Request timed out after ${Duration.format(timeout)}`, method })
+          })
+        )
+      ),
+      Effect.catchTags({
+        RequestError: (error) =>
+          Effect.fail(new TelegramBotApiError({ message: `Request failed: ${error.message}`, method, cause: error })),
+        ResponseError: (error) =>
+          Effect.fail(new TelegramBotApiError({ message: `Response failed: ${error.message}`, method, cause: error }))
+      }),
+      Effect.tapError((error) =>
+        error._tag === "TelegramBotApiRateLimitError"
+          ? Effect.zipRight(
+            Metric.increment(Metric.tagged(telegramRateLimitCount, "method", method)),
+            // Hold back every queued message to the same chat, not only this request
+            throttled && error.retryAfter
+              ? rateLimiter.penalize(chatId, Duration.seconds(error.retryAfter))
+              : Effect.void
+          )
+          : Effect.void
+      )
+    )
 
-  return pipe(
-    HttpClient.HttpClient,
-    Effect.flatMap((client) => client.execute(request)),
-    Effect.flatMap((response) => handleTelegramResponse<T>(response)),
-    Effect.retry({
-      schedule: Schedule.identity<
-        | HttpClientError
-        | TelegramBotApiConflictError
-        | TelegramBotApiInvalidResponseError
-        | TelegramBotApiMethodError
-        | TelegramBotApiRateLimitError
-        | TelegramBotApiUnauthorizedError
-      >().pipe(
+  // A rate limited request waits at least for retry_after, which is in seconds
+  const getRetryAfter = (error: TelegramBotApiRequestError) =>
+    error._tag === "TelegramBotApiRateLimitError"
+      ? error.retryAfter ? Duration.seconds(error.retryAfter) : Duration.millis(config.rateLimitDelay)
+      : Duration.zero
+
+  const makeRetrySchedule = (options: TelegramRequestOptions) =>
+    options.retrySchedule
+      ? Schedule.intersect(
+        options.retrySchedule,
+        Schedule.identity<TelegramBotApiRequestError>().pipe(
+          Schedule.addDelay(getRetryAfter)
+        )
+      )
+      : Schedule.identity<TelegramBotApiRequestError>().pipe(
         Schedule.addDelay((error) =>
-          error._tag === "TelegramBotApiRateLimitError"
-            ? error.retryAfter ? Duration.millis(error.retryAfter) : Duration.millis(config.rateLimitDelay)
-            : Duration.millis(config.retryDelay)
+          error._tag === "TelegramBotApiRateLimitError" ? getRetryAfter(error) : Duration.millis(config.retryDelay)
         ),
         Schedule.intersect(Schedule.recurs(config.retryAttempts))
-      ),
-      until: (error) => (
-        error._tag === "RequestError" ||
-        error._tag === "ResponseError" ||
-        error._tag === "TelegramBotApiConflictError" ||
-        error._tag === "TelegramBotApiInvalidResponseError" ||
-        error._tag === "TelegramBotApiMethodError" ||
-        error._tag === "TelegramBotApiUnauthorizedError"
       )
-    }),
-    Effect.mapError((error) => new TelegramBotApiError({ message: `Unexpected error: ${String(error)}` }))
-  ).pipe(
-    Effect.provide(FetchHttpClient.layer)
-  )
+
+  return Effect.flatMap(FiberRef.get(currentTelegramRequestOptions), (options) => {
+    const idempotent = options.idempotent ?? isIdempotentMethod(method)
+    let attempts = 0
+    const call = pipe(
+      Effect.sync(() => attempts++),
+      Effect.zipRight(attempt(getRequestTimeout(method, params, config, options))),
+      Effect.retry({
+        schedule: makeRetrySchedule(options),
+        // Rate limited requests were not processed, other failures only when the call is safe to repeat
+        while: (error) => error._tag === "TelegramBotApiRateLimitError" || (idempotent && isTransientError(error))
+      }),
+      Effect.tapError((error) => {
+        const errorCode = getErrorCode(error)
+        return Effect.zipRight(
+          errorCode !== undefined ? Effect.annotateCurrentSpan("telegram.error_code", errorCode) : Effect.void,
+          Metric.increment(
+            Metric.tagged(Metric.tagged(telegramRequestErrorCount, "method", method), "error", error._tag)
+          )
+        )
+      }),
+      Effect.ensuring(Effect.suspend(() => Effect.annotateCurrentSpan("telegram.retry_count", attempts - 1))),
+      Metric.trackDuration(Metric.tagged(telegramRequestDuration, "method", method)),
+      Effect.ensuring(Metric.increment(Metric.tagged(telegramRequestCount, "method", method))),
+      Effect.withSpan(`telegram.${method}`, {
+        kind: "client",
+        attributes: {
+          "telegram.method": method,
+          ...chatId !== undefined ? { "telegram.chat_id": chatId } : {},
+          // The token is part of the URL, and must never end up in a trace
+          "url.full": `${config.apiBaseUrl}<redacted>/${method}`
+        }
+      })
+    )
+    // Methods that are safe to repeat need no key
+    return options.idempotencyKey !== undefined && !isIdempotentMethod(method)
+      ? deduplicate(`${method}:${options.idempotencyKey}`, call, context)
+      : call
+  })
 }
 
 // =============================================================================
@@ -7972,200 +8755,220 @@ const executeTelegramRequest = <T>(
  */
 export interface TelegramBotApi {
   // Getting updates
-  getUpdates(params?: GetUpdatesParams): Effect.Effect<Array<Update>, TelegramBotApiError>
-  setWebhook(params?: SetWebhookParams): Effect.Effect<true, TelegramBotApiError>
-  deleteWebhook(params?: DeleteWebhookParams): Effect.Effect<true, TelegramBotApiError>
-  getWebhookInfo(): Effect.Effect<WebhookInfo, TelegramBotApiError>
+  getUpdates(params?: GetUpdatesParams): Effect.Effect<Array<Update>, TelegramBotApiRequestError>
+  setWebhook(params?: SetWebhookParams): Effect.Effect<true, TelegramBotApiRequestError>
+  deleteWebhook(params?: DeleteWebhookParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getWebhookInfo(): Effect.Effect<WebhookInfo, TelegramBotApiRequestError>
 
   // Available methods
-  getMe(): Effect.Effect<User, TelegramBotApiError>
-  logOut(): Effect.Effect<true, TelegramBotApiError>
-  close(): Effect.Effect<true, TelegramBotApiError>
-  sendMessage(params: SendMessageParams): Effect.Effect<Message, TelegramBotApiError>
-  forwardMessage(params: ForwardMessageParams): Effect.Effect<Message, TelegramBotApiError>
-  forwardMessages(params: ForwardMessagesParams): Effect.Effect<Array<MessageId>, TelegramBotApiError>
-  copyMessage(params: CopyMessageParams): Effect.Effect<MessageId, TelegramBotApiError>
-  copyMessages(params: CopyMessagesParams): Effect.Effect<Array<MessageId>, TelegramBotApiError>
-  sendPhoto(params: SendPhotoParams): Effect.Effect<Message, TelegramBotApiError>
-  sendAudio(params: SendAudioParams): Effect.Effect<Message, TelegramBotApiError>
-  sendDocument(params: SendDocumentParams): Effect.Effect<Message, TelegramBotApiError>
-  sendVideo(params: SendVideoParams): Effect.Effect<Message, TelegramBotApiError>
-  sendAnimation(params: SendAnimationParams): Effect.Effect<Message, TelegramBotApiError>
-  sendVoice(params: SendVoiceParams): Effect.Effect<Message, TelegramBotApiError>
-  sendVideoNote(params: SendVideoNoteParams): Effect.Effect<Message, TelegramBotApiError>
-  sendPaidMedia(params: SendPaidMediaParams): Effect.Effect<Message, TelegramBotApiError>
-  sendMediaGroup(params: SendMediaGroupParams): Effect.Effect<Array<Message | boolean>, TelegramBotApiError>
-  sendLocation(params: SendLocationParams): Effect.Effect<Message, TelegramBotApiError>
-  sendVenue(params: SendVenueParams): Effect.Effect<Message, TelegramBotApiError>
-  sendContact(params: SendContactParams): Effect.Effect<Message, TelegramBotApiError>
-  sendPoll(params: SendPollParams): Effect.Effect<Message, TelegramBotApiError>
-  sendChecklist(params: SendChecklistParams): Effect.Effect<Message, TelegramBotApiError>
-  sendDice(params: SendDiceParams): Effect.Effect<Message, TelegramBotApiError>
-  sendChatAction(params: SendChatActionParams): Effect.Effect<true, TelegramBotApiError>
-  setMessageReaction(params: SetMessageReactionParams): Effect.Effect<true, TelegramBotApiError>
-  getUserProfilePhotos(params: GetUserProfilePhotosParams): Effect.Effect<UserProfilePhotos, TelegramBotApiError>
-  setUserEmojiStatus(params: SetUserEmojiStatusParams): Effect.Effect<true, TelegramBotApiError>
-  getFile(params: GetFileParams): Effect.Effect<File, TelegramBotApiError>
-  banChatMember(params: BanChatMemberParams): Effect.Effect<true, TelegramBotApiError>
-  unbanChatMember(params: UnbanChatMemberParams): Effect.Effect<true, TelegramBotApiError>
-  restrictChatMember(params: RestrictChatMemberParams): Effect.Effect<true, TelegramBotApiError>
-  promoteChatMember(params: PromoteChatMemberParams): Effect.Effect<true, TelegramBotApiError>
+  getMe(): Effect.Effect<User, TelegramBotApiRequestError>
+  logOut(): Effect.Effect<true, TelegramBotApiRequestError>
+  close(): Effect.Effect<true, TelegramBotApiRequestError>
+  sendMessage(params: SendMessageParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  forwardMessage(params: ForwardMessageParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  forwardMessages(params: ForwardMessagesParams): Effect.Effect<Array<MessageId>, TelegramBotApiRequestError>
+  copyMessage(params: CopyMessageParams): Effect.Effect<MessageId, TelegramBotApiRequestError>
+  copyMessages(params: CopyMessagesParams): Effect.Effect<Array<MessageId>, TelegramBotApiRequestError>
+  sendPhoto(params: SendPhotoParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendAudio(params: SendAudioParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendDocument(params: SendDocumentParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendVideo(params: SendVideoParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendAnimation(params: SendAnimationParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendVoice(params: SendVoiceParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendVideoNote(params: SendVideoNoteParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendPaidMedia(params: SendPaidMediaParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendMediaGroup(params: SendMediaGroupParams): Effect.Effect<Array<Message | boolean>, TelegramBotApiRequestError>
+  sendLocation(params: SendLocationParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendVenue(params: SendVenueParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendContact(params: SendContactParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendPoll(params: SendPollParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendChecklist(params: SendChecklistParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendDice(params: SendDiceParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  sendChatAction(params: SendChatActionParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setMessageReaction(params: SetMessageReactionParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getUserProfilePhotos(params: GetUserProfilePhotosParams): Effect.Effect<UserProfilePhotos, TelegramBotApiRequestError>
+  setUserEmojiStatus(params: SetUserEmojiStatusParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getFile(params: GetFileParams): Effect.Effect<File, TelegramBotApiRequestError>
+  banChatMember(params: BanChatMemberParams): Effect.Effect<true, TelegramBotApiRequestError>
+  unbanChatMember(params: UnbanChatMemberParams): Effect.Effect<true, TelegramBotApiRequestError>
+  restrictChatMember(params: RestrictChatMemberParams): Effect.Effect<true, TelegramBotApiRequestError>
+  promoteChatMember(params: PromoteChatMemberParams): Effect.Effect<true, TelegramBotApiRequestError>
   setChatAdministratorCustomTitle(
     params: SetChatAdministratorCustomTitleParams
-  ): Effect.Effect<true, TelegramBotApiError>
-  banChatSenderChat(params: BanChatSenderChatParams): Effect.Effect<true, TelegramBotApiError>
-  unbanChatSenderChat(params: UnbanChatSenderChatParams): Effect.Effect<true, TelegramBotApiError>
-  setChatPermissions(params: SetChatPermissionsParams): Effect.Effect<true, TelegramBotApiError>
-  exportChatInviteLink(params: ExportChatInviteLinkParams): Effect.Effect<String, TelegramBotApiError>
-  createChatInviteLink(params: CreateChatInviteLinkParams): Effect.Effect<ChatInviteLink, TelegramBotApiError>
-  editChatInviteLink(params: EditChatInviteLinkParams): Effect.Effect<ChatInviteLink, TelegramBotApiError>
+  ): Effect.Effect<true, TelegramBotApiRequestError>
+  banChatSenderChat(params: BanChatSenderChatParams): Effect.Effect<true, TelegramBotApiRequestError>
+  unbanChatSenderChat(params: UnbanChatSenderChatParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setChatPermissions(params: SetChatPermissionsParams): Effect.Effect<true, TelegramBotApiRequestError>
+  exportChatInviteLink(params: ExportChatInviteLinkParams): Effect.Effect<String, TelegramBotApiRequestError>
+  createChatInviteLink(params: CreateChatInviteLinkParams): Effect.Effect<ChatInviteLink, TelegramBotApiRequestError>
+  editChatInviteLink(params: EditChatInviteLinkParams): Effect.Effect<ChatInviteLink, TelegramBotApiRequestError>
   createChatSubscriptionInviteLink(
     params: CreateChatSubscriptionInviteLinkParams
-  ): Effect.Effect<ChatInviteLink, TelegramBotApiError>
+  ): Effect.Effect<ChatInviteLink, TelegramBotApiRequestError>
   editChatSubscriptionInviteLink(
     params: EditChatSubscriptionInviteLinkParams
-  ): Effect.Effect<ChatInviteLink, TelegramBotApiError>
-  revokeChatInviteLink(params: RevokeChatInviteLinkParams): Effect.Effect<ChatInviteLink, TelegramBotApiError>
-  approveChatJoinRequest(params: ApproveChatJoinRequestParams): Effect.Effect<true, TelegramBotApiError>
-  declineChatJoinRequest(params: DeclineChatJoinRequestParams): Effect.Effect<true, TelegramBotApiError>
-  setChatPhoto(params: SetChatPhotoParams): Effect.Effect<true, TelegramBotApiError>
-  deleteChatPhoto(params: DeleteChatPhotoParams): Effect.Effect<true, TelegramBotApiError>
-  setChatTitle(params: SetChatTitleParams): Effect.Effect<true, TelegramBotApiError>
-  setChatDescription(params: SetChatDescriptionParams): Effect.Effect<true, TelegramBotApiError>
-  pinChatMessage(params: PinChatMessageParams): Effect.Effect<true, TelegramBotApiError>
-  unpinChatMessage(params: UnpinChatMessageParams): Effect.Effect<true, TelegramBotApiError>
-  unpinAllChatMessages(params: UnpinAllChatMessagesParams): Effect.Effect<true, TelegramBotApiError>
-  leaveChat(params: LeaveChatParams): Effect.Effect<true, TelegramBotApiError>
-  getChat(params: GetChatParams): Effect.Effect<ChatFullInfo, TelegramBotApiError>
-  getChatAdministrators(params: GetChatAdministratorsParams): Effect.Effect<Array<ChatMember>, TelegramBotApiError>
-  getChatMemberCount(params: GetChatMemberCountParams): Effect.Effect<Integer, TelegramBotApiError>
-  getChatMember(params: GetChatMemberParams): Effect.Effect<ChatMember, TelegramBotApiError>
-  setChatStickerSet(params: SetChatStickerSetParams): Effect.Effect<true, TelegramBotApiError>
-  deleteChatStickerSet(params: DeleteChatStickerSetParams): Effect.Effect<true, TelegramBotApiError>
+  ): Effect.Effect<ChatInviteLink, TelegramBotApiRequestError>
+  revokeChatInviteLink(params: RevokeChatInviteLinkParams): Effect.Effect<ChatInviteLink, TelegramBotApiRequestError>
+  approveChatJoinRequest(params: ApproveChatJoinRequestParams): Effect.Effect<true, TelegramBotApiRequestError>
+  declineChatJoinRequest(params: DeclineChatJoinRequestParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setChatPhoto(params: SetChatPhotoParams): Effect.Effect<true, TelegramBotApiRequestError>
+  deleteChatPhoto(params: DeleteChatPhotoParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setChatTitle(params: SetChatTitleParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setChatDescription(params: SetChatDescriptionParams): Effect.Effect<true, TelegramBotApiRequestError>
+  pinChatMessage(params: PinChatMessageParams): Effect.Effect<true, TelegramBotApiRequestError>
+  unpinChatMessage(params: UnpinChatMessageParams): Effect.Effect<true, TelegramBotApiRequestError>
+  unpinAllChatMessages(params: UnpinAllChatMessagesParams): Effect.Effect<true, TelegramBotApiRequestError>
+  leaveChat(params: LeaveChatParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getChat(params: GetChatParams): Effect.Effect<ChatFullInfo, TelegramBotApiRequestError>
+  getChatAdministrators(
+    params: GetChatAdministratorsParams
+  ): Effect.Effect<Array<ChatMember>, TelegramBotApiRequestError>
+  getChatMemberCount(params: GetChatMemberCountParams): Effect.Effect<Integer, TelegramBotApiRequestError>
+  getChatMember(params: GetChatMemberParams): Effect.Effect<ChatMember, TelegramBotApiRequestError>
+  setChatStickerSet(params: SetChatStickerSetParams): Effect.Effect<true, TelegramBotApiRequestError>
+  deleteChatStickerSet(params: DeleteChatStickerSetParams): Effect.Effect<true, TelegramBotApiRequestError>
   getForumTopicIconStickers(): Effect.Effect<
     Array<Sticker>,
-    TelegramBotApiError
+    TelegramBotApiRequestError
   >
-  createForumTopic(params: CreateForumTopicParams): Effect.Effect<ForumTopic, TelegramBotApiError>
-  editForumTopic(params: EditForumTopicParams): Effect.Effect<true, TelegramBotApiError>
-  closeForumTopic(params: CloseForumTopicParams): Effect.Effect<true, TelegramBotApiError>
-  reopenForumTopic(params: ReopenForumTopicParams): Effect.Effect<true, TelegramBotApiError>
-  deleteForumTopic(params: DeleteForumTopicParams): Effect.Effect<true, TelegramBotApiError>
-  unpinAllForumTopicMessages(params: UnpinAllForumTopicMessagesParams): Effect.Effect<true, TelegramBotApiError>
-  editGeneralForumTopic(params: EditGeneralForumTopicParams): Effect.Effect<true, TelegramBotApiError>
-  closeGeneralForumTopic(params: CloseGeneralForumTopicParams): Effect.Effect<true, TelegramBotApiError>
-  reopenGeneralForumTopic(params: ReopenGeneralForumTopicParams): Effect.Effect<true, TelegramBotApiError>
-  hideGeneralForumTopic(params: HideGeneralForumTopicParams): Effect.Effect<true, TelegramBotApiError>
-  unhideGeneralForumTopic(params: UnhideGeneralForumTopicParams): Effect.Effect<true, TelegramBotApiError>
+  createForumTopic(params: CreateForumTopicParams): Effect.Effect<ForumTopic, TelegramBotApiRequestError>
+  editForumTopic(params: EditForumTopicParams): Effect.Effect<true, TelegramBotApiRequestError>
+  closeForumTopic(params: CloseForumTopicParams): Effect.Effect<true, TelegramBotApiRequestError>
+  reopenForumTopic(params: ReopenForumTopicParams): Effect.Effect<true, TelegramBotApiRequestError>
+  deleteForumTopic(params: DeleteForumTopicParams): Effect.Effect<true, TelegramBotApiRequestError>
+  unpinAllForumTopicMessages(params: UnpinAllForumTopicMessagesParams): Effect.Effect<true, TelegramBotApiRequestError>
+  editGeneralForumTopic(params: EditGeneralForumTopicParams): Effect.Effect<true, TelegramBotApiRequestError>
+  closeGeneralForumTopic(params: CloseGeneralForumTopicParams): Effect.Effect<true, TelegramBotApiRequestError>
+  reopenGeneralForumTopic(params: ReopenGeneralForumTopicParams): Effect.Effect<true, TelegramBotApiRequestError>
+  hideGeneralForumTopic(params: HideGeneralForumTopicParams): Effect.Effect<true, TelegramBotApiRequestError>
+  unhideGeneralForumTopic(params: UnhideGeneralForumTopicParams): Effect.Effect<true, TelegramBotApiRequestError>
   unpinAllGeneralForumTopicMessages(
     params: UnpinAllGeneralForumTopicMessagesParams
-  ): Effect.Effect<true, TelegramBotApiError>
-  answerCallbackQuery(params: AnswerCallbackQueryParams): Effect.Effect<true, TelegramBotApiError>
-  getUserChatBoosts(params: GetUserChatBoostsParams): Effect.Effect<UserChatBoosts, TelegramBotApiError>
-  getBusinessConnection(params: GetBusinessConnectionParams): Effect.Effect<BusinessConnection, TelegramBotApiError>
-  setMyCommands(params: SetMyCommandsParams): Effect.Effect<true, TelegramBotApiError>
-  deleteMyCommands(params?: DeleteMyCommandsParams): Effect.Effect<true, TelegramBotApiError>
-  getMyCommands(params?: GetMyCommandsParams): Effect.Effect<Array<BotCommand>, TelegramBotApiError>
-  setMyName(params?: SetMyNameParams): Effect.Effect<true, TelegramBotApiError>
-  getMyName(params?: GetMyNameParams): Effect.Effect<BotName, TelegramBotApiError>
-  setMyDescription(params?: SetMyDescriptionParams): Effect.Effect<true, TelegramBotApiError>
-  getMyDescription(params?: GetMyDescriptionParams): Effect.Effect<BotDescription, TelegramBotApiError>
-  setMyShortDescription(params?: SetMyShortDescriptionParams): Effect.Effect<true, TelegramBotApiError>
-  getMyShortDescription(params?: GetMyShortDescriptionParams): Effect.Effect<BotShortDescription, TelegramBotApiError>
-  setChatMenuButton(params?: SetChatMenuButtonParams): Effect.Effect<true, TelegramBotApiError>
-  getChatMenuButton(params?: GetChatMenuButtonParams): Effect.Effect<MenuButton, TelegramBotApiError>
+  ): Effect.Effect<true, TelegramBotApiRequestError>
+  answerCallbackQuery(params: AnswerCallbackQueryParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getUserChatBoosts(params: GetUserChatBoostsParams): Effect.Effect<UserChatBoosts, TelegramBotApiRequestError>
+  getBusinessConnection(
+    params: GetBusinessConnectionParams
+  ): Effect.Effect<BusinessConnection, TelegramBotApiRequestError>
+  setMyCommands(params: SetMyCommandsParams): Effect.Effect<true, TelegramBotApiRequestError>
+  deleteMyCommands(params?: DeleteMyCommandsParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getMyCommands(params?: GetMyCommandsParams): Effect.Effect<Array<BotCommand>, TelegramBotApiRequestError>
+  setMyName(params?: SetMyNameParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getMyName(params?: GetMyNameParams): Effect.Effect<BotName, TelegramBotApiRequestError>
+  setMyDescription(params?: SetMyDescriptionParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getMyDescription(params?: GetMyDescriptionParams): Effect.Effect<BotDescription, TelegramBotApiRequestError>
+  setMyShortDescription(params?: SetMyShortDescriptionParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getMyShortDescription(
+    params?: GetMyShortDescriptionParams
+  ): Effect.Effect<BotShortDescription, TelegramBotApiRequestError>
+  setChatMenuButton(params?: SetChatMenuButtonParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getChatMenuButton(params?: GetChatMenuButtonParams): Effect.Effect<MenuButton, TelegramBotApiRequestError>
   setMyDefaultAdministratorRights(
     params?: SetMyDefaultAdministratorRightsParams
-  ): Effect.Effect<true, TelegramBotApiError>
+  ): Effect.Effect<true, TelegramBotApiRequestError>
   getMyDefaultAdministratorRights(
     params?: GetMyDefaultAdministratorRightsParams
-  ): Effect.Effect<ChatAdministratorRights, TelegramBotApiError>
-  getAvailableGifts(): Effect.Effect<Gifts, TelegramBotApiError>
-  sendGift(params: SendGiftParams): Effect.Effect<true, TelegramBotApiError>
-  giftPremiumSubscription(params: GiftPremiumSubscriptionParams): Effect.Effect<true, TelegramBotApiError>
-  verifyUser(params: VerifyUserParams): Effect.Effect<true, TelegramBotApiError>
-  verifyChat(params: VerifyChatParams): Effect.Effect<true, TelegramBotApiError>
-  removeUserVerification(): Effect.Effect<true, TelegramBotApiError>
-  removeChatVerification(): Effect.Effect<true, TelegramBotApiError>
-  readBusinessMessage(params: ReadBusinessMessageParams): Effect.Effect<true, TelegramBotApiError>
-  deleteBusinessMessages(params: DeleteBusinessMessagesParams): Effect.Effect<true, TelegramBotApiError>
-  setBusinessAccountName(params: SetBusinessAccountNameParams): Effect.Effect<true, TelegramBotApiError>
-  setBusinessAccountUsername(params: SetBusinessAccountUsernameParams): Effect.Effect<true, TelegramBotApiError>
-  setBusinessAccountBio(params: SetBusinessAccountBioParams): Effect.Effect<true, TelegramBotApiError>
-  setBusinessAccountProfilePhoto(params: SetBusinessAccountProfilePhotoParams): Effect.Effect<true, TelegramBotApiError>
-  removeBusinessAccountProfilePhoto(): Effect.Effect<true, TelegramBotApiError>
-  setBusinessAccountGiftSettings(params: SetBusinessAccountGiftSettingsParams): Effect.Effect<true, TelegramBotApiError>
+  ): Effect.Effect<ChatAdministratorRights, TelegramBotApiRequestError>
+  getAvailableGifts(): Effect.Effect<Gifts, TelegramBotApiRequestError>
+  sendGift(params: SendGiftParams): Effect.Effect<true, TelegramBotApiRequestError>
+  giftPremiumSubscription(params: GiftPremiumSubscriptionParams): Effect.Effect<true, TelegramBotApiRequestError>
+  verifyUser(params: VerifyUserParams): Effect.Effect<true, TelegramBotApiRequestError>
+  verifyChat(params: VerifyChatParams): Effect.Effect<true, TelegramBotApiRequestError>
+  removeUserVerification(): Effect.Effect<true, TelegramBotApiRequestError>
+  removeChatVerification(): Effect.Effect<true, TelegramBotApiRequestError>
+  readBusinessMessage(params: ReadBusinessMessageParams): Effect.Effect<true, TelegramBotApiRequestError>
+  deleteBusinessMessages(params: DeleteBusinessMessagesParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setBusinessAccountName(params: SetBusinessAccountNameParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setBusinessAccountUsername(params: SetBusinessAccountUsernameParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setBusinessAccountBio(params: SetBusinessAccountBioParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setBusinessAccountProfilePhoto(
+    params: SetBusinessAccountProfilePhotoParams
+  ): Effect.Effect<true, TelegramBotApiRequestError>
+  removeBusinessAccountProfilePhoto(): Effect.Effect<true, TelegramBotApiRequestError>
+  setBusinessAccountGiftSettings(
+    params: SetBusinessAccountGiftSettingsParams
+  ): Effect.Effect<true, TelegramBotApiRequestError>
   getBusinessAccountStarBalance(): Effect.Effect<
     StarAmount,
-    TelegramBotApiError
+    TelegramBotApiRequestError
   >
-  transferBusinessAccountStars(params: TransferBusinessAccountStarsParams): Effect.Effect<true, TelegramBotApiError>
-  getBusinessAccountGifts(): Effect.Effect<Gifts, TelegramBotApiError>
-  convertGiftToStars(params: ConvertGiftToStarsParams): Effect.Effect<true, TelegramBotApiError>
-  upgradeGift(params: UpgradeGiftParams): Effect.Effect<true, TelegramBotApiError>
-  transferGift(params: TransferGiftParams): Effect.Effect<true, TelegramBotApiError>
-  postStory(params: PostStoryParams): Effect.Effect<Message, TelegramBotApiError>
-  editStory(params: EditStoryParams): Effect.Effect<true, TelegramBotApiError>
-  deleteStory(params: DeleteStoryParams): Effect.Effect<true, TelegramBotApiError>
+  transferBusinessAccountStars(
+    params: TransferBusinessAccountStarsParams
+  ): Effect.Effect<true, TelegramBotApiRequestError>
+  getBusinessAccountGifts(): Effect.Effect<Gifts, TelegramBotApiRequestError>
+  convertGiftToStars(params: ConvertGiftToStarsParams): Effect.Effect<true, TelegramBotApiRequestError>
+  upgradeGift(params: UpgradeGiftParams): Effect.Effect<true, TelegramBotApiRequestError>
+  transferGift(params: TransferGiftParams): Effect.Effect<true, TelegramBotApiRequestError>
+  postStory(params: PostStoryParams): Effect.Effect<Story, TelegramBotApiRequestError>
+  editStory(params: EditStoryParams): Effect.Effect<Story, TelegramBotApiRequestError>
+  deleteStory(params: DeleteStoryParams): Effect.Effect<true, TelegramBotApiRequestError>
 
   // Updating messages
-  editMessageText(params: EditMessageTextParams): Effect.Effect<Message | true, TelegramBotApiError>
-  editMessageCaption(params: EditMessageCaptionParams): Effect.Effect<Message | true, TelegramBotApiError>
-  editMessageMedia(params: EditMessageMediaParams): Effect.Effect<Message | true, TelegramBotApiError>
-  editMessageLiveLocation(params: EditMessageLiveLocationParams): Effect.Effect<Message | true, TelegramBotApiError>
-  stopMessageLiveLocation(params: StopMessageLiveLocationParams): Effect.Effect<Message | true, TelegramBotApiError>
-  editMessageChecklist(params: EditMessageChecklistParams): Effect.Effect<Message | true, TelegramBotApiError>
-  editMessageReplyMarkup(params: EditMessageReplyMarkupParams): Effect.Effect<Message | true, TelegramBotApiError>
-  stopPoll(params: StopPollParams): Effect.Effect<Poll, TelegramBotApiError>
-  approveSuggestedPost(params: ApproveSuggestedPostParams): Effect.Effect<true, TelegramBotApiError>
-  declineSuggestedPost(params: DeclineSuggestedPostParams): Effect.Effect<true, TelegramBotApiError>
-  deleteMessage(params: DeleteMessageParams): Effect.Effect<true, TelegramBotApiError>
-  deleteMessages(params: DeleteMessagesParams): Effect.Effect<true, TelegramBotApiError>
+  editMessageText(params: EditMessageTextParams): Effect.Effect<Message | true, TelegramBotApiRequestError>
+  editMessageCaption(params: EditMessageCaptionParams): Effect.Effect<Message | true, TelegramBotApiRequestError>
+  editMessageMedia(params: EditMessageMediaParams): Effect.Effect<Message | true, TelegramBotApiRequestError>
+  editMessageLiveLocation(
+    params: EditMessageLiveLocationParams
+  ): Effect.Effect<Message | true, TelegramBotApiRequestError>
+  stopMessageLiveLocation(
+    params: StopMessageLiveLocationParams
+  ): Effect.Effect<Message | true, TelegramBotApiRequestError>
+  editMessageChecklist(params: EditMessageChecklistParams): Effect.Effect<Message | true, TelegramBotApiRequestError>
+  editMessageReplyMarkup(
+    params: EditMessageReplyMarkupParams
+  ): Effect.Effect<Message | true, TelegramBotApiRequestError>
+  stopPoll(params: StopPollParams): Effect.Effect<Poll, TelegramBotApiRequestError>
+  approveSuggestedPost(params: ApproveSuggestedPostParams): Effect.Effect<true, TelegramBotApiRequestError>
+  declineSuggestedPost(params: DeclineSuggestedPostParams): Effect.Effect<true, TelegramBotApiRequestError>
+  deleteMessage(params: DeleteMessageParams): Effect.Effect<true, TelegramBotApiRequestError>
+  deleteMessages(params: DeleteMessagesParams): Effect.Effect<true, TelegramBotApiRequestError>
 
   // Stickers
-  sendSticker(params: SendStickerParams): Effect.Effect<Message, TelegramBotApiError>
-  getStickerSet(params: GetStickerSetParams): Effect.Effect<StickerSet, TelegramBotApiError>
-  getCustomEmojiStickers(params: GetCustomEmojiStickersParams): Effect.Effect<Array<Sticker>, TelegramBotApiError>
-  uploadStickerFile(params: UploadStickerFileParams): Effect.Effect<File, TelegramBotApiError>
-  createNewStickerSet(params: CreateNewStickerSetParams): Effect.Effect<true, TelegramBotApiError>
-  addStickerToSet(params: AddStickerToSetParams): Effect.Effect<true, TelegramBotApiError>
-  setStickerPositionInSet(params: SetStickerPositionInSetParams): Effect.Effect<true, TelegramBotApiError>
-  deleteStickerFromSet(params: DeleteStickerFromSetParams): Effect.Effect<true, TelegramBotApiError>
-  replaceStickerInSet(params: ReplaceStickerInSetParams): Effect.Effect<true, TelegramBotApiError>
-  setStickerEmojiList(params: SetStickerEmojiListParams): Effect.Effect<true, TelegramBotApiError>
-  setStickerKeywords(params: SetStickerKeywordsParams): Effect.Effect<true, TelegramBotApiError>
-  setStickerMaskPosition(params: SetStickerMaskPositionParams): Effect.Effect<true, TelegramBotApiError>
-  setStickerSetTitle(params: SetStickerSetTitleParams): Effect.Effect<true, TelegramBotApiError>
-  setStickerSetThumbnail(params: SetStickerSetThumbnailParams): Effect.Effect<true, TelegramBotApiError>
+  sendSticker(params: SendStickerParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  getStickerSet(params: GetStickerSetParams): Effect.Effect<StickerSet, TelegramBotApiRequestError>
+  getCustomEmojiStickers(
+    params: GetCustomEmojiStickersParams
+  ): Effect.Effect<Array<Sticker>, TelegramBotApiRequestError>
+  uploadStickerFile(params: UploadStickerFileParams): Effect.Effect<File, TelegramBotApiRequestError>
+  createNewStickerSet(params: CreateNewStickerSetParams): Effect.Effect<true, TelegramBotApiRequestError>
+  addStickerToSet(params: AddStickerToSetParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setStickerPositionInSet(params: SetStickerPositionInSetParams): Effect.Effect<true, TelegramBotApiRequestError>
+  deleteStickerFromSet(params: DeleteStickerFromSetParams): Effect.Effect<true, TelegramBotApiRequestError>
+  replaceStickerInSet(params: ReplaceStickerInSetParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setStickerEmojiList(params: SetStickerEmojiListParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setStickerKeywords(params: SetStickerKeywordsParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setStickerMaskPosition(params: SetStickerMaskPositionParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setStickerSetTitle(params: SetStickerSetTitleParams): Effect.Effect<true, TelegramBotApiRequestError>
+  setStickerSetThumbnail(params: SetStickerSetThumbnailParams): Effect.Effect<true, TelegramBotApiRequestError>
   setCustomEmojiStickerSetThumbnail(
     params: SetCustomEmojiStickerSetThumbnailParams
-  ): Effect.Effect<true, TelegramBotApiError>
-  deleteStickerSet(params: DeleteStickerSetParams): Effect.Effect<true, TelegramBotApiError>
+  ): Effect.Effect<true, TelegramBotApiRequestError>
+  deleteStickerSet(params: DeleteStickerSetParams): Effect.Effect<true, TelegramBotApiRequestError>
 
   // Inline mode
-  answerInlineQuery(params: AnswerInlineQueryParams): Effect.Effect<true, TelegramBotApiError>
-  answerWebAppQuery(params: AnswerWebAppQueryParams): Effect.Effect<SentWebAppMessage, TelegramBotApiError>
+  answerInlineQuery(params: AnswerInlineQueryParams): Effect.Effect<true, TelegramBotApiRequestError>
+  answerWebAppQuery(params: AnswerWebAppQueryParams): Effect.Effect<SentWebAppMessage, TelegramBotApiRequestError>
   savePreparedInlineMessage(
     params: SavePreparedInlineMessageParams
-  ): Effect.Effect<PreparedInlineMessage, TelegramBotApiError>
+  ): Effect.Effect<PreparedInlineMessage, TelegramBotApiRequestError>
 
   // Payments
-  sendInvoice(params: SendInvoiceParams): Effect.Effect<Message, TelegramBotApiError>
-  createInvoiceLink(params: CreateInvoiceLinkParams): Effect.Effect<String, TelegramBotApiError>
-  answerShippingQuery(params: AnswerShippingQueryParams): Effect.Effect<true, TelegramBotApiError>
-  answerPreCheckoutQuery(params: AnswerPreCheckoutQueryParams): Effect.Effect<true, TelegramBotApiError>
-  getMyStarBalance(): Effect.Effect<StarAmount, TelegramBotApiError>
-  getStarTransactions(params: GetStarTransactionsParams): Effect.Effect<StarTransactions, TelegramBotApiError>
-  refundStarPayment(params: RefundStarPaymentParams): Effect.Effect<true, TelegramBotApiError>
-  editUserStarSubscription(params: EditUserStarSubscriptionParams): Effect.Effect<true, TelegramBotApiError>
+  sendInvoice(params: SendInvoiceParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  createInvoiceLink(params: CreateInvoiceLinkParams): Effect.Effect<String, TelegramBotApiRequestError>
+  answerShippingQuery(params: AnswerShippingQueryParams): Effect.Effect<true, TelegramBotApiRequestError>
+  answerPreCheckoutQuery(params: AnswerPreCheckoutQueryParams): Effect.Effect<true, TelegramBotApiRequestError>
+  getMyStarBalance(): Effect.Effect<StarAmount, TelegramBotApiRequestError>
+  getStarTransactions(params: GetStarTransactionsParams): Effect.Effect<StarTransactions, TelegramBotApiRequestError>
+  refundStarPayment(params: RefundStarPaymentParams): Effect.Effect<true, TelegramBotApiRequestError>
+  editUserStarSubscription(params: EditUserStarSubscriptionParams): Effect.Effect<true, TelegramBotApiRequestError>
 
   // Telegram Passport
-  setPassportDataErrors(params: SetPassportDataErrorsParams): Effect.Effect<true, TelegramBotApiError>
+  setPassportDataErrors(params: SetPassportDataErrorsParams): Effect.Effect<true, TelegramBotApiRequestError>
 
   // Games
-  sendGame(params: SendGameParams): Effect.Effect<Message, TelegramBotApiError>
-  setGameScore(params: SetGameScoreParams): Effect.Effect<Message | true, TelegramBotApiError>
-  getGameHighScores(params: GetGameHighScoresParams): Effect.Effect<Array<GameHighScore>, TelegramBotApiError>
+  sendGame(params: SendGameParams): Effect.Effect<Message, TelegramBotApiRequestError>
+  setGameScore(params: SetGameScoreParams): Effect.Effect<Message | true, TelegramBotApiRequestError>
+  getGameHighScores(params: GetGameHighScoresParams): Effect.Effect<Array<GameHighScore>, TelegramBotApiRequestError>
 }
 
 export class TelegramBotApiContext extends Context.Tag(
@@ -8174,235 +8977,260 @@ export class TelegramBotApiContext extends Context.Tag(
 
 /**
  * Live implementation of the Telegram Bot API Service
+ * Requests are sent with the HttpClient from the context, see NodeHttpClientLive for Node
  */
 
 export const TelegramBotApiLive = Layer.effect(
   TelegramBotApiContext,
   Effect.gen(function*() {
     const telegramBotApiConfig = yield* TelegramBotApiConfigContext
+    const fileSystem = yield* FileSystem.FileSystem
+    // Requests are traced in telegram.<method> spans, the spans of the HTTP client would leak the token in the URL
+    const httpClient = (yield* HttpClient.HttpClient).pipe(HttpClient.withTracerDisabledWhen(() => true))
+    const rateLimiter = yield* RateLimiterContext
+    const idempotentResultsRef = yield* Ref.make(new Map<string, IdempotentResult>())
+    const requestContext: TelegramRequestContext = {
+      config: telegramBotApiConfig,
+      fileSystem,
+      httpClient,
+      idempotentResultsRef,
+      rateLimiter
+    }
 
     return TelegramBotApiContext.of({
       // Getting updates
-      getUpdates: (params) => executeTelegramRequest("getUpdates", params, telegramBotApiConfig),
-      setWebhook: (params) => executeTelegramRequest("setWebhook", params, telegramBotApiConfig),
-      deleteWebhook: (params) => executeTelegramRequest("deleteWebhook", params, telegramBotApiConfig),
-      getWebhookInfo: () => executeTelegramRequest("getWebhookInfo", {}, telegramBotApiConfig),
+      getUpdates: (params) => executeTelegramRequest("getUpdates", params, requestContext),
+      setWebhook: (params) => executeTelegramRequest("setWebhook", params, requestContext),
+      deleteWebhook: (params) => executeTelegramRequest("deleteWebhook", params, requestContext),
+      getWebhookInfo: () => executeTelegramRequest("getWebhookInfo", {}, requestContext),
 
       // Available methods
-      getMe: () => executeTelegramRequest("getMe", {}, telegramBotApiConfig),
-      logOut: () => executeTelegramRequest("logOut", {}, telegramBotApiConfig),
-      close: () => executeTelegramRequest("close", {}, telegramBotApiConfig),
-      sendMessage: (params) => executeTelegramRequest("sendMessage", params, telegramBotApiConfig),
-      forwardMessage: (params) => executeTelegramRequest("forwardMessage", params, telegramBotApiConfig),
-      forwardMessages: (params) => executeTelegramRequest("forwardMessages", params, telegramBotApiConfig),
-      copyMessage: (params) => executeTelegramRequest("copyMessage", params, telegramBotApiConfig),
-      copyMessages: (params) => executeTelegramRequest("copyMessages", params, telegramBotApiConfig),
-      sendPhoto: (params) => executeTelegramRequest("sendPhoto", params, telegramBotApiConfig),
-      sendAudio: (params) => executeTelegramRequest("sendAudio", params, telegramBotApiConfig),
-      sendDocument: (params) => executeTelegramRequest("sendDocument", params, telegramBotApiConfig),
-      sendVideo: (params) => executeTelegramRequest("sendVideo", params, telegramBotApiConfig),
-      sendAnimation: (params) => executeTelegramRequest("sendAnimation", params, telegramBotApiConfig),
-      sendVoice: (params) => executeTelegramRequest("sendVoice", params, telegramBotApiConfig),
-      sendVideoNote: (params) => executeTelegramRequest("sendVideoNote", params, telegramBotApiConfig),
-      sendPaidMedia: (params) => executeTelegramRequest("sendPaidMedia", params, telegramBotApiConfig),
-      sendMediaGroup: (params) => executeTelegramRequest("sendMediaGroup", params, telegramBotApiConfig),
-      sendLocation: (params) => executeTelegramRequest("sendLocation", params, telegramBotApiConfig),
-      sendVenue: (params) => executeTelegramRequest("sendVenue", params, telegramBotApiConfig),
-      sendContact: (params) => executeTelegramRequest("sendContact", params, telegramBotApiConfig),
-      sendPoll: (params) => executeTelegramRequest("sendPoll", params, telegramBotApiConfig),
-      sendChecklist: (params) => executeTelegramRequest("sendChecklist", params, telegramBotApiConfig),
-      sendDice: (params) => executeTelegramRequest("sendDice", params, telegramBotApiConfig),
-      sendChatAction: (params) => executeTelegramRequest("sendChatAction", params, telegramBotApiConfig),
-      setMessageReaction: (params) => executeTelegramRequest("setMessageReaction", params, telegramBotApiConfig),
-      getUserProfilePhotos: (params) => executeTelegramRequest("getUserProfilePhotos", params, telegramBotApiConfig),
-      setUserEmojiStatus: (params) => executeTelegramRequest("setUserEmojiStatus", params, telegramBotApiConfig),
-      getFile: (params) => executeTelegramRequest("getFile", params, telegramBotApiConfig),
-      banChatMember: (params) => executeTelegramRequest("banChatMember", params, telegramBotApiConfig),
-      unbanChatMember: (params) => executeTelegramRequest("unbanChatMember", params, telegramBotApiConfig),
-      restrictChatMember: (params) => executeTelegramRequest("restrictChatMember", params, telegramBotApiConfig),
-      promoteChatMember: (params) => executeTelegramRequest("promoteChatMember", params, telegramBotApiConfig),
+      getMe: () => executeTelegramRequest("getMe", {}, requestContext),
+      logOut: () => executeTelegramRequest("logOut", {}, requestContext),
+      close: () => executeTelegramRequest("close", {}, requestContext),
+      sendMessage: (params) => executeTelegramRequest("sendMessage", params, requestContext),
+      forwardMessage: (params) => executeTelegramRequest("forwardMessage", params, requestContext),
+      forwardMessages: (params) => executeTelegramRequest("forwardMessages", params, requestContext),
+      copyMessage: (params) => executeTelegramRequest("copyMessage", params, requestContext),
+      copyMessages: (params) => executeTelegramRequest("copyMessages", params, requestContext),
+      sendPhoto: (params) => executeTelegramRequest("sendPhoto", params, requestContext),
+      sendAudio: (params) => executeTelegramRequest("sendAudio", params, requestContext),
+      sendDocument: (params) => executeTelegramRequest("sendDocument", params, requestContext),
+      sendVideo: (params) => executeTelegramRequest("sendVideo", params, requestContext),
+      sendAnimation: (params) => executeTelegramRequest("sendAnimation", params, requestContext),
+      sendVoice: (params) => executeTelegramRequest("sendVoice", params, requestContext),
+      sendVideoNote: (params) => executeTelegramRequest("sendVideoNote", params, requestContext),
+      sendPaidMedia: (params) => executeTelegramRequest("sendPaidMedia", params, requestContext),
+      sendMediaGroup: (params) => executeTelegramRequest("sendMediaGroup", params, requestContext),
+      sendLocation: (params) => executeTelegramRequest("sendLocation", params, requestContext),
+      sendVenue: (params) => executeTelegramRequest("sendVenue", params, requestContext),
+      sendContact: (params) => executeTelegramRequest("sendContact", params, requestContext),
+      sendPoll: (params) => executeTelegramRequest("sendPoll", params, requestContext),
+      sendChecklist: (params) => executeTelegramRequest("sendChecklist", params, requestContext),
+      sendDice: (params) => executeTelegramRequest("sendDice", params, requestContext),
+      sendChatAction: (params) => executeTelegramRequest("sendChatAction", params, requestContext),
+      setMessageReaction: (params) => executeTelegramRequest("setMessageReaction", params, requestContext),
+      getUserProfilePhotos: (params) => executeTelegramRequest("getUserProfilePhotos", params, requestContext),
+      setUserEmojiStatus: (params) => executeTelegramRequest("setUserEmojiStatus", params, requestContext),
+      getFile: (params) => executeTelegramRequest("getFile", params, requestContext),
+      banChatMember: (params) => executeTelegramRequest("banChatMember", params, requestContext),
+      unbanChatMember: (params) => executeTelegramRequest("unbanChatMember", params, requestContext),
+      restrictChatMember: (params) => executeTelegramRequest("restrictChatMember", params, requestContext),
+      promoteChatMember: (params) => executeTelegramRequest("promoteChatMember", params, requestContext),
       setChatAdministratorCustomTitle: (params) =>
-        executeTelegramRequest("setChatAdministratorCustomTitle", params, telegramBotApiConfig),
-      banChatSenderChat: (params) => executeTelegramRequest("banChatSenderChat", params, telegramBotApiConfig),
-      unbanChatSenderChat: (params) => executeTelegramRequest("unbanChatSenderChat", params, telegramBotApiConfig),
-      setChatPermissions: (params) => executeTelegramRequest("setChatPermissions", params, telegramBotApiConfig),
-      exportChatInviteLink: (params) => executeTelegramRequest("exportChatInviteLink", params, telegramBotApiConfig),
-      createChatInviteLink: (params) => executeTelegramRequest("createChatInviteLink", params, telegramBotApiConfig),
-      editChatInviteLink: (params) => executeTelegramRequest("editChatInviteLink", params, telegramBotApiConfig),
+        executeTelegramRequest("setChatAdministratorCustomTitle", params, requestContext),
+      banChatSenderChat: (params) => executeTelegramRequest("banChatSenderChat", params, requestContext),
+      unbanChatSenderChat: (params) => executeTelegramRequest("unbanChatSenderChat", params, requestContext),
+      setChatPermissions: (params) => executeTelegramRequest("setChatPermissions", params, requestContext),
+      exportChatInviteLink: (params) => executeTelegramRequest("exportChatInviteLink", params, requestContext),
+      createChatInviteLink: (params) => executeTelegramRequest("createChatInviteLink", params, requestContext),
+      editChatInviteLink: (params) => executeTelegramRequest("editChatInviteLink", params, requestContext),
       createChatSubscriptionInviteLink: (params) =>
-        executeTelegramRequest("createChatSubscriptionInviteLink", params, telegramBotApiConfig),
+        executeTelegramRequest("createChatSubscriptionInviteLink", params, requestContext),
       editChatSubscriptionInviteLink: (params) =>
-        executeTelegramRequest("editChatSubscriptionInviteLink", params, telegramBotApiConfig),
-      revokeChatInviteLink: (params) => executeTelegramRequest("revokeChatInviteLink", params, telegramBotApiConfig),
-      approveChatJoinRequest: (params) =>
-        executeTelegramRequest("approveChatJoinRequest", params, telegramBotApiConfig),
-      declineChatJoinRequest: (params) =>
-        executeTelegramRequest("declineChatJoinRequest", params, telegramBotApiConfig),
-      setChatPhoto: (params) => executeTelegramRequest("setChatPhoto", params, telegramBotApiConfig),
-      deleteChatPhoto: (params) => executeTelegramRequest("deleteChatPhoto", params, telegramBotApiConfig),
-      setChatTitle: (params) => executeTelegramRequest("setChatTitle", params, telegramBotApiConfig),
-      setChatDescription: (params) => executeTelegramRequest("setChatDescription", params, telegramBotApiConfig),
-      pinChatMessage: (params) => executeTelegramRequest("pinChatMessage", params, telegramBotApiConfig),
-      unpinChatMessage: (params) => executeTelegramRequest("unpinChatMessage", params, telegramBotApiConfig),
-      unpinAllChatMessages: (params) => executeTelegramRequest("unpinAllChatMessages", params, telegramBotApiConfig),
-      leaveChat: (params) => executeTelegramRequest("leaveChat", params, telegramBotApiConfig),
-      getChat: (params) => executeTelegramRequest("getChat", params, telegramBotApiConfig),
-      getChatAdministrators: (params) => executeTelegramRequest("getChatAdministrators", params, telegramBotApiConfig),
-      getChatMemberCount: (params) => executeTelegramRequest("getChatMemberCount", params, telegramBotApiConfig),
-      getChatMember: (params) => executeTelegramRequest("getChatMember", params, telegramBotApiConfig),
-      setChatStickerSet: (params) => executeTelegramRequest("setChatStickerSet", params, telegramBotApiConfig),
-      deleteChatStickerSet: (params) => executeTelegramRequest("deleteChatStickerSet", params, telegramBotApiConfig),
-      getForumTopicIconStickers: () => executeTelegramRequest("getForumTopicIconStickers", {}, telegramBotApiConfig),
-      createForumTopic: (params) => executeTelegramRequest("createForumTopic", params, telegramBotApiConfig),
-      editForumTopic: (params) => executeTelegramRequest("editForumTopic", params, telegramBotApiConfig),
-      closeForumTopic: (params) => executeTelegramRequest("closeForumTopic", params, telegramBotApiConfig),
-      reopenForumTopic: (params) => executeTelegramRequest("reopenForumTopic", params, telegramBotApiConfig),
-      deleteForumTopic: (params) => executeTelegramRequest("deleteForumTopic", params, telegramBotApiConfig),
+        executeTelegramRequest("editChatSubscriptionInviteLink", params, requestContext),
+      revokeChatInviteLink: (params) => executeTelegramRequest("revokeChatInviteLink", params, requestContext),
+      approveChatJoinRequest: (params) => executeTelegramRequest("approveChatJoinRequest", params, requestContext),
+      declineChatJoinRequest: (params) => executeTelegramRequest("declineChatJoinRequest", params, requestContext),
+      setChatPhoto: (params) => executeTelegramRequest("setChatPhoto", params, requestContext),
+      deleteChatPhoto: (params) => executeTelegramRequest("deleteChatPhoto", params, requestContext),
+      setChatTitle: (params) => executeTelegramRequest("setChatTitle", params, requestContext),
+      setChatDescription: (params) => executeTelegramRequest("setChatDescription", params, requestContext),
+      pinChatMessage: (params) => executeTelegramRequest("pinChatMessage", params, requestContext),
+      unpinChatMessage: (params) => executeTelegramRequest("unpinChatMessage", params, requestContext),
+      unpinAllChatMessages: (params) => executeTelegramRequest("unpinAllChatMessages", params, requestContext),
+      leaveChat: (params) => executeTelegramRequest("leaveChat", params, requestContext),
+      getChat: (params) => executeTelegramRequest("getChat", params, requestContext),
+      getChatAdministrators: (params) => executeTelegramRequest("getChatAdministrators", params, requestContext),
+      getChatMemberCount: (params) => executeTelegramRequest("getChatMemberCount", params, requestContext),
+      getChatMember: (params) => executeTelegramRequest("getChatMember", params, requestContext),
+      setChatStickerSet: (params) => executeTelegramRequest("setChatStickerSet", params, requestContext),
+      deleteChatStickerSet: (params) => executeTelegramRequest("deleteChatStickerSet", params, requestContext),
+      getForumTopicIconStickers: () => executeTelegramRequest("getForumTopicIconStickers", {}, requestContext),
+      createForumTopic: (params) => executeTelegramRequest("createForumTopic", params, requestContext),
+      editForumTopic: (params) => executeTelegramRequest("editForumTopic", params, requestContext),
+      closeForumTopic: (params) => executeTelegramRequest("closeForumTopic", params, requestContext),
+      reopenForumTopic: (params) => executeTelegramRequest("reopenForumTopic", params, requestContext),
+      deleteForumTopic: (params) => executeTelegramRequest("deleteForumTopic", params, requestContext),
       unpinAllForumTopicMessages: (params) =>
-        executeTelegramRequest("unpinAllForumTopicMessages", params, telegramBotApiConfig),
-      editGeneralForumTopic: (params) => executeTelegramRequest("editGeneralForumTopic", params, telegramBotApiConfig),
-      closeGeneralForumTopic: (params) =>
-        executeTelegramRequest("closeGeneralForumTopic", params, telegramBotApiConfig),
-      reopenGeneralForumTopic: (params) =>
-        executeTelegramRequest("reopenGeneralForumTopic", params, telegramBotApiConfig),
-      hideGeneralForumTopic: (params) => executeTelegramRequest("hideGeneralForumTopic", params, telegramBotApiConfig),
-      unhideGeneralForumTopic: (params) =>
-        executeTelegramRequest("unhideGeneralForumTopic", params, telegramBotApiConfig),
+        executeTelegramRequest("unpinAllForumTopicMessages", params, requestContext),
+      editGeneralForumTopic: (params) => executeTelegramRequest("editGeneralForumTopic", params, requestContext),
+      closeGeneralForumTopic: (params) => executeTelegramRequest("closeGeneralForumTopic", params, requestContext),
+      reopenGeneralForumTopic: (params) => executeTelegramRequest("reopenGeneralForumTopic", params, requestContext),
+      hideGeneralForumTopic: (params) => executeTelegramRequest("hideGeneralForumTopic", params, requestContext),
+      unhideGeneralForumTopic: (params) => executeTelegramRequest("unhideGeneralForumTopic", params, requestContext),
       unpinAllGeneralForumTopicMessages: (params) =>
-        executeTelegramRequest("unpinAllGeneralForumTopicMessages", params, telegramBotApiConfig),
-      answerCallbackQuery: (params) => executeTelegramRequest("answerCallbackQuery", params, telegramBotApiConfig),
-      getUserChatBoosts: (params) => executeTelegramRequest("getUserChatBoosts", params, telegramBotApiConfig),
-      getBusinessConnection: (params) => executeTelegramRequest("getBusinessConnection", params, telegramBotApiConfig),
-      setMyCommands: (params) => executeTelegramRequest("setMyCommands", params, telegramBotApiConfig),
-      deleteMyCommands: (params) => executeTelegramRequest("deleteMyCommands", params, telegramBotApiConfig),
-      getMyCommands: (params) => executeTelegramRequest("getMyCommands", params, telegramBotApiConfig),
-      setMyName: (params) => executeTelegramRequest("setMyName", params, telegramBotApiConfig),
-      getMyName: (params) => executeTelegramRequest("getMyName", params, telegramBotApiConfig),
-      setMyDescription: (params) => executeTelegramRequest("setMyDescription", params, telegramBotApiConfig),
-      getMyDescription: (params) => executeTelegramRequest("getMyDescription", params, telegramBotApiConfig),
-      setMyShortDescription: (params) => executeTelegramRequest("setMyShortDescription", params, telegramBotApiConfig),
-      getMyShortDescription: (params) => executeTelegramRequest("getMyShortDescription", params, telegramBotApiConfig),
-      setChatMenuButton: (params) => executeTelegramRequest("setChatMenuButton", params, telegramBotApiConfig),
-      getChatMenuButton: (params) => executeTelegramRequest("getChatMenuButton", params, telegramBotApiConfig),
+        executeTelegramRequest("unpinAllGeneralForumTopicMessages", params, requestContext),
+      answerCallbackQuery: (params) => executeTelegramRequest("answerCallbackQuery", params, requestContext),
+      getUserChatBoosts: (params) => executeTelegramRequest("getUserChatBoosts", params, requestContext),
+      getBusinessConnection: (params) => executeTelegramRequest("getBusinessConnection", params, requestContext),
+      setMyCommands: (params) => executeTelegramRequest("setMyCommands", params, requestContext),
+      deleteMyCommands: (params) => executeTelegramRequest("deleteMyCommands", params, requestContext),
+      getMyCommands: (params) => executeTelegramRequest("getMyCommands", params, requestContext),
+      setMyName: (params) => executeTelegramRequest("setMyName", params, requestContext),
+      getMyName: (params) => executeTelegramRequest("getMyName", params, requestContext),
+      setMyDescription: (params) => executeTelegramRequest("setMyDescription", params, requestContext),
+      getMyDescription: (params) => executeTelegramRequest("getMyDescription", params, requestContext),
+      setMyShortDescription: (params) => executeTelegramRequest("setMyShortDescription", params, requestContext),
+      getMyShortDescription: (params) => executeTelegramRequest("getMyShortDescription", params, requestContext),
+      setChatMenuButton: (params) => executeTelegramRequest("setChatMenuButton", params, requestContext),
+      getChatMenuButton: (params) => executeTelegramRequest("getChatMenuButton", params, requestContext),
       setMyDefaultAdministratorRights: (params) =>
-        executeTelegramRequest("setMyDefaultAdministratorRights", params, telegramBotApiConfig),
+        executeTelegramRequest("setMyDefaultAdministratorRights", params, requestContext),
       getMyDefaultAdministratorRights: (params) =>
-        executeTelegramRequest("getMyDefaultAdministratorRights", params, telegramBotApiConfig),
-      getAvailableGifts: () => executeTelegramRequest("getAvailableGifts", {}, telegramBotApiConfig),
-      sendGift: (params) => executeTelegramRequest("sendGift", params, telegramBotApiConfig),
-      giftPremiumSubscription: (params) =>
-        executeTelegramRequest("giftPremiumSubscription", params, telegramBotApiConfig),
-      verifyUser: (params) => executeTelegramRequest("verifyUser", params, telegramBotApiConfig),
-      verifyChat: (params) => executeTelegramRequest("verifyChat", params, telegramBotApiConfig),
-      removeUserVerification: () => executeTelegramRequest("removeUserVerification", {}, telegramBotApiConfig),
-      removeChatVerification: () => executeTelegramRequest("removeChatVerification", {}, telegramBotApiConfig),
-      readBusinessMessage: (params) => executeTelegramRequest("readBusinessMessage", params, telegramBotApiConfig),
-      deleteBusinessMessages: (params) =>
-        executeTelegramRequest("deleteBusinessMessages", params, telegramBotApiConfig),
-      setBusinessAccountName: (params) =>
-        executeTelegramRequest("setBusinessAccountName", params, telegramBotApiConfig),
+        executeTelegramRequest("getMyDefaultAdministratorRights", params, requestContext),
+      getAvailableGifts: () => executeTelegramRequest("getAvailableGifts", {}, requestContext),
+      sendGift: (params) => executeTelegramRequest("sendGift", params, requestContext),
+      giftPremiumSubscription: (params) => executeTelegramRequest("giftPremiumSubscription", params, requestContext),
+      verifyUser: (params) => executeTelegramRequest("verifyUser", params, requestContext),
+      verifyChat: (params) => executeTelegramRequest("verifyChat", params, requestContext),
+      removeUserVerification: () => executeTelegramRequest("removeUserVerification", {}, requestContext),
+      removeChatVerification: () => executeTelegramRequest("removeChatVerification", {}, requestContext),
+      readBusinessMessage: (params) => executeTelegramRequest("readBusinessMessage", params, requestContext),
+      deleteBusinessMessages: (params) => executeTelegramRequest("deleteBusinessMessages", params, requestContext),
+      setBusinessAccountName: (params) => executeTelegramRequest("setBusinessAccountName", params, requestContext),
       setBusinessAccountUsername: (params) =>
-        executeTelegramRequest("setBusinessAccountUsername", params, telegramBotApiConfig),
-      setBusinessAccountBio: (params) => executeTelegramRequest("setBusinessAccountBio", params, telegramBotApiConfig),
+        executeTelegramRequest("setBusinessAccountUsername", params, requestContext),
+      setBusinessAccountBio: (params) => executeTelegramRequest("setBusinessAccountBio", params, requestContext),
       setBusinessAccountProfilePhoto: (params) =>
-        executeTelegramRequest("setBusinessAccountProfilePhoto", params, telegramBotApiConfig),
+        executeTelegramRequest("setBusinessAccountProfilePhoto", params, requestContext),
       removeBusinessAccountProfilePhoto: () =>
-        executeTelegramRequest("removeBusinessAccountProfilePhoto", {}, telegramBotApiConfig),
+        executeTelegramRequest("removeBusinessAccountProfilePhoto", {}, requestContext),
       setBusinessAccountGiftSettings: (params) =>
-        executeTelegramRequest("setBusinessAccountGiftSettings", params, telegramBotApiConfig),
-      getBusinessAccountStarBalance: () =>
-        executeTelegramRequest("getBusinessAccountStarBalance", {}, telegramBotApiConfig),
+        executeTelegramRequest("setBusinessAccountGiftSettings", params, requestContext),
+      getBusinessAccountStarBalance: () => executeTelegramRequest("getBusinessAccountStarBalance", {}, requestContext),
       transferBusinessAccountStars: (params) =>
-        executeTelegramRequest("transferBusinessAccountStars", params, telegramBotApiConfig),
-      getBusinessAccountGifts: () => executeTelegramRequest("getBusinessAccountGifts", {}, telegramBotApiConfig),
-      convertGiftToStars: (params) => executeTelegramRequest("convertGiftToStars", params, telegramBotApiConfig),
-      upgradeGift: (params) => executeTelegramRequest("upgradeGift", params, telegramBotApiConfig),
-      transferGift: (params) => executeTelegramRequest("transferGift", params, telegramBotApiConfig),
-      postStory: (params) => executeTelegramRequest("postStory", params, telegramBotApiConfig),
-      editStory: (params) => executeTelegramRequest("editStory", params, telegramBotApiConfig),
-      deleteStory: (params) => executeTelegramRequest("deleteStory", params, telegramBotApiConfig),
+        executeTelegramRequest("transferBusinessAccountStars", params, requestContext),
+      getBusinessAccountGifts: () => executeTelegramRequest("getBusinessAccountGifts", {}, requestContext),
+      convertGiftToStars: (params) => executeTelegramRequest("convertGiftToStars", params, requestContext),
+      upgradeGift: (params) => executeTelegramRequest("upgradeGift", params, requestContext),
+      transferGift: (params) => executeTelegramRequest("transferGift", params, requestContext),
+      postStory: (params) => executeTelegramRequest("postStory", params, requestContext),
+      editStory: (params) => executeTelegramRequest("editStory", params, requestContext),
+      deleteStory: (params) => executeTelegramRequest("deleteStory", params, requestContext),
 
       // Updating messages
-      editMessageText: (params) => executeTelegramRequest("editMessageText", params, telegramBotApiConfig),
-      editMessageCaption: (params) => executeTelegramRequest("editMessageCaption", params, telegramBotApiConfig),
-      editMessageMedia: (params) => executeTelegramRequest("editMessageMedia", params, telegramBotApiConfig),
-      editMessageLiveLocation: (params) =>
-        executeTelegramRequest("editMessageLiveLocation", params, telegramBotApiConfig),
-      stopMessageLiveLocation: (params) =>
-        executeTelegramRequest("stopMessageLiveLocation", params, telegramBotApiConfig),
-      editMessageChecklist: (params) => executeTelegramRequest("editMessageChecklist", params, telegramBotApiConfig),
-      editMessageReplyMarkup: (params) =>
-        executeTelegramRequest("editMessageReplyMarkup", params, telegramBotApiConfig),
-      stopPoll: (params) => executeTelegramRequest("stopPoll", params, telegramBotApiConfig),
-      approveSuggestedPost: (params) => executeTelegramRequest("approveSuggestedPost", params, telegramBotApiConfig),
-      declineSuggestedPost: (params) => executeTelegramRequest("declineSuggestedPost", params, telegramBotApiConfig),
-      deleteMessage: (params) => executeTelegramRequest("deleteMessage", params, telegramBotApiConfig),
-      deleteMessages: (params) => executeTelegramRequest("deleteMessages", params, telegramBotApiConfig),
+      editMessageText: (params) => executeTelegramRequest("editMessageText", params, requestContext),
+      editMessageCaption: (params) => executeTelegramRequest("editMessageCaption", params, requestContext),
+      editMessageMedia: (params) => executeTelegramRequest("editMessageMedia", params, requestContext),
+      editMessageLiveLocation: (params) => executeTelegramRequest("editMessageLiveLocation", params, requestContext),
+      stopMessageLiveLocation: (params) => executeTelegramRequest("stopMessageLiveLocation", params, requestContext),
+      editMessageChecklist: (params) => executeTelegramRequest("editMessageChecklist", params, requestContext),
+      editMessageReplyMarkup: (params) => executeTelegramRequest("editMessageReplyMarkup", params, requestContext),
+      stopPoll: (params) => executeTelegramRequest("stopPoll", params, requestContext),
+      approveSuggestedPost: (params) => executeTelegramRequest("approveSuggestedPost", params, requestContext),
+      declineSuggestedPost: (params) => executeTelegramRequest("declineSuggestedPost", params, requestContext),
+      deleteMessage: (params) => executeTelegramRequest("deleteMessage", params, requestContext),
+      deleteMessages: (params) => executeTelegramRequest("deleteMessages", params, requestContext),
 
       // Stickers
-      sendSticker: (params) => executeTelegramRequest("sendSticker", params, telegramBotApiConfig),
-      getStickerSet: (params) => executeTelegramRequest("getStickerSet", params, telegramBotApiConfig),
-      getCustomEmojiStickers: (params) =>
-        executeTelegramRequest("getCustomEmojiStickers", params, telegramBotApiConfig),
-      uploadStickerFile: (params) => executeTelegramRequest("uploadStickerFile", params, telegramBotApiConfig),
-      createNewStickerSet: (params) => executeTelegramRequest("createNewStickerSet", params, telegramBotApiConfig),
-      addStickerToSet: (params) => executeTelegramRequest("addStickerToSet", params, telegramBotApiConfig),
-      setStickerPositionInSet: (params) =>
-        executeTelegramRequest("setStickerPositionInSet", params, telegramBotApiConfig),
-      deleteStickerFromSet: (params) => executeTelegramRequest("deleteStickerFromSet", params, telegramBotApiConfig),
-      replaceStickerInSet: (params) => executeTelegramRequest("replaceStickerInSet", params, telegramBotApiConfig),
-      setStickerEmojiList: (params) => executeTelegramRequest("setStickerEmojiList", params, telegramBotApiConfig),
-      setStickerKeywords: (params) => executeTelegramRequest("setStickerKeywords", params, telegramBotApiConfig),
-      setStickerMaskPosition: (params) =>
-        executeTelegramRequest("setStickerMaskPosition", params, telegramBotApiConfig),
-      setStickerSetTitle: (params) => executeTelegramRequest("setStickerSetTitle", params, telegramBotApiConfig),
-      setStickerSetThumbnail: (params) =>
-        executeTelegramRequest("setStickerSetThumbnail", params, telegramBotApiConfig),
+      sendSticker: (params) => executeTelegramRequest("sendSticker", params, requestContext),
+      getStickerSet: (params) => executeTelegramRequest("getStickerSet", params, requestContext),
+      getCustomEmojiStickers: (params) => executeTelegramRequest("getCustomEmojiStickers", params, requestContext),
+      uploadStickerFile: (params) => executeTelegramRequest("uploadStickerFile", params, requestContext),
+      createNewStickerSet: (params) => executeTelegramRequest("createNewStickerSet", params, requestContext),
+      addStickerToSet: (params) => executeTelegramRequest("addStickerToSet", params, requestContext),
+      setStickerPositionInSet: (params) => executeTelegramRequest("setStickerPositionInSet", params, requestContext),
+      deleteStickerFromSet: (params) => executeTelegramRequest("deleteStickerFromSet", params, requestContext),
+      replaceStickerInSet: (params) => executeTelegramRequest("replaceStickerInSet", params, requestContext),
+      setStickerEmojiList: (params) => executeTelegramRequest("setStickerEmojiList", params, requestContext),
+      setStickerKeywords: (params) => executeTelegramRequest("setStickerKeywords", params, requestContext),
+      setStickerMaskPosition: (params) => executeTelegramRequest("setStickerMaskPosition", params, requestContext),
+      setStickerSetTitle: (params) => executeTelegramRequest("setStickerSetTitle", params, requestContext),
+      setStickerSetThumbnail: (params) => executeTelegramRequest("setStickerSetThumbnail", params, requestContext),
       setCustomEmojiStickerSetThumbnail: (params) =>
-        executeTelegramRequest("setCustomEmojiStickerSetThumbnail", params, telegramBotApiConfig),
-      deleteStickerSet: (params) => executeTelegramRequest("deleteStickerSet", params, telegramBotApiConfig),
+        executeTelegramRequest("setCustomEmojiStickerSetThumbnail", params, requestContext),
+      deleteStickerSet: (params) => executeTelegramRequest("deleteStickerSet", params, requestContext),
 
       // Inline mode
-      answerInlineQuery: (params) => executeTelegramRequest("answerInlineQuery", params, telegramBotApiConfig),
-      answerWebAppQuery: (params) => executeTelegramRequest("answerWebAppQuery", params, telegramBotApiConfig),
+      answerInlineQuery: (params) => executeTelegramRequest("answerInlineQuery", params, requestContext),
+      answerWebAppQuery: (params) => executeTelegramRequest("answerWebAppQuery", params, requestContext),
       savePreparedInlineMessage: (params) =>
-        executeTelegramRequest("savePreparedInlineMessage", params, telegramBotApiConfig),
+        executeTelegramRequest("savePreparedInlineMessage", params, requestContext),
 
       // Payments
-      sendInvoice: (params) => executeTelegramRequest("sendInvoice", params, telegramBotApiConfig),
-      createInvoiceLink: (params) => executeTelegramRequest("createInvoiceLink", params, telegramBotApiConfig),
-      answerShippingQuery: (params) => executeTelegramRequest("answerShippingQuery", params, telegramBotApiConfig),
-      answerPreCheckoutQuery: (params) =>
-        executeTelegramRequest("answerPreCheckoutQuery", params, telegramBotApiConfig),
-      getMyStarBalance: () => executeTelegramRequest("getMyStarBalance", {}, telegramBotApiConfig),
-      getStarTransactions: (params) => executeTelegramRequest("getStarTransactions", params, telegramBotApiConfig),
-      refundStarPayment: (params) => executeTelegramRequest("refundStarPayment", params, telegramBotApiConfig),
-      editUserStarSubscription: (params) =>
-        executeTelegramRequest("editUserStarSubscription", params, telegramBotApiConfig),
+      sendInvoice: (params) => executeTelegramRequest("sendInvoice", params, requestContext),
+      createInvoiceLink: (params) => executeTelegramRequest("createInvoiceLink", params, requestContext),
+      answerShippingQuery: (params) => executeTelegramRequest("answerShippingQuery", params, requestContext),
+      answerPreCheckoutQuery: (params) => executeTelegramRequest("answerPreCheckoutQuery", params, requestContext),
+      getMyStarBalance: () => executeTelegramRequest("getMyStarBalance", {}, requestContext),
+      getStarTransactions: (params) => executeTelegramRequest("getStarTransactions", params, requestContext),
+      refundStarPayment: (params) => executeTelegramRequest("refundStarPayment", params, requestContext),
+      editUserStarSubscription: (params) => executeTelegramRequest("editUserStarSubscription", params, requestContext),
 
       // Telegram Passport
-      setPassportDataErrors: (params) => executeTelegramRequest("setPassportDataErrors", params, telegramBotApiConfig),
+      setPassportDataErrors: (params) => executeTelegramRequest("setPassportDataErrors", params, requestContext),
 
       // Games
-      sendGame: (params) => executeTelegramRequest("sendGame", params, telegramBotApiConfig),
-      setGameScore: (params) => executeTelegramRequest("setGameScore", params, telegramBotApiConfig),
-      getGameHighScores: (params) => executeTelegramRequest("getGameHighScores", params, telegramBotApiConfig)
+      sendGame: (params) => executeTelegramRequest("sendGame", params, requestContext),
+      setGameScore: (params) => executeTelegramRequest("setGameScore", params, requestContext),
+      getGameHighScores: (params) => executeTelegramRequest("getGameHighScores", params, requestContext)
     })
   })
 )
 
+/**
+ * Log the bot out from the cloud Bot API server, which is required once before
+ * a local Bot API server can serve it. The bot cannot log back in to the cloud
+ * server for 10 minutes afterwards.
+ */
+export const logOutFromCloud = Effect.gen(function*() {
+  const telegramBotApiConfig = yield* TelegramBotApiConfigContext
+  const telegramBotApi = yield* TelegramBotApiContext.pipe(
+    Effect.provide(TelegramBotApiLive),
+    Effect.provide(Layer.succeed(TelegramBotApiConfigContext, {
+      ...telegramBotApiConfig,
+      apiBaseUrl: CLOUD_API_BASE_URL,
+      localMode: false
+    }))
+  )
+  yield* telegramBotApi.logOut()
+  yield* Effect.logInfo("Logged out from the cloud Bot API server")
+})
+
 // =============================================================================
 // Configuration Layer
 // =============================================================================
 
+/**
+ * The base URL of the cloud Bot API server, which the method name follows the token on
+ */
+export const CLOUD_API_BASE_URL = "https://api.telegram.org/bot"
+
 /**
  * Configuration for the Telegram Bot API Service
  */
 export interface TelegramBotApiConfig {
   readonly apiBaseUrl: string
+  /** How long the result of a call made with an idempotency key is remembered, in ms */
+  readonly idempotencyTtl: number
+  /** Talk to a local Bot API server, which serves files from its filesystem and accepts larger uploads */
+  readonly localMode: boolean
   readonly rateLimitDelay: number
   readonly retryAttempts: number
   readonly retryDelay: number
+  /** Validate responses against their schema, failing with TelegramBotApiInvalidResponseError on mismatch */
+  readonly strictDecoding: boolean
   readonly timeout: number
   readonly token: Redacted.Redacted
 }
@@ -8431,7 +9259,17 @@ export const TelegramBotApiConfigLive = Layer.effect(
           }
         })
       ),
-      "https://api.telegram.org/bot"
+      CLOUD_API_BASE_URL
+    )
+    const idempotencyTtl = yield* Config.withDefault(
+      Config.number("TELEGRAM_IDEMPOTENCY_TTL").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      10 * 60 * 1000
+    )
+    const localMode = yield* Config.withDefault(
+      Config.boolean("TELEGRAM_LOCAL_MODE"),
+      false
     )
     const rateLimitDelay = yield* Config.withDefault(
       Config.number("TELEGRAM_RATE_LIMIT_DELAY").pipe(
@@ -8451,11 +9289,15 @@ export const TelegramBotApiConfigLive = Layer.effect(
       ),
       1000
     )
+    const strictDecoding = yield* Config.withDefault(
+      Config.boolean("TELEGRAM_STRICT_DECODING"),
+      false
+    )
     const timeout = yield* Config.withDefault(
       Config.number("TELEGRAM_REQUEST_TIMEOUT").pipe(
         Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
       ),
-      1000
+      30000
     )
     const token = yield* Config.redacted("TELEGRAM_BOT_TOKEN").pipe(
       Config.validate({ message: "Must not be empty", validation: (a) => "" !== Redacted.value(a) })
@@ -8463,9 +9305,12 @@ export const TelegramBotApiConfigLive = Layer.effect(
 
     return TelegramBotApiConfigContext.of({
       apiBaseUrl,
+      idempotencyTtl,
+      localMode,
       rateLimitDelay,
       retryAttempts,
       retryDelay,
+      strictDecoding,
       timeout,
       token
     })
@@ -0,0 +1,41 @@
+import { Metric } from "effect"
+
+// =============================================================================
+// Telegram Bot API Metrics
+// =============================================================================
+//
+// Every metric is tagged with the method it was recorded for. They are kept in
+// Effect's global metric registry, and exported along with the spans by an
+// OpenTelemetry layer such as NodeSdk.layer of @effect/opentelemetry.
+
+/**
+ * Telegram Bot API calls, counting each call once however often it was retried
+ */
+export const telegramRequestCount = Metric.counter("telegram_requests_total", {
+  description: "Telegram Bot API calls",
+  incremental: true
+})
+
+/**
+ * Duration of Telegram Bot API calls including retries, in milliseconds
+ */
+export const telegramRequestDuration = Metric.timer(
+  "telegram_request_duration",
+  "Duration of Telegram Bot API calls including retries"
+)
+
+/**
+ * Telegram Bot API calls that failed after their retries, also tagged with the error
+ */
+export const telegramRequestErrorCount = Metric.counter("telegram_request_errors_total", {
+  description: "Telegram Bot API calls that failed",
+  incremental: true
+})
+
+/**
+ * Responses with status 429 Too Many Requests, counting retried attempts too
+ */
+export const telegramRateLimitCount = Metric.counter("telegram_rate_limits_total", {
+  description: "Telegram Bot API responses with status 429",
+  incremental: true
+})
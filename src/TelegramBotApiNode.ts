@@ -0,0 +1,49 @@
+import { NodeHttpClient } from "@effect/platform-node"
+import { Agent, ProxyAgent } from "@effect/platform-node/Undici"
+import { Config, Effect, Layer, Option } from "effect"
+
+// =============================================================================
+// Node HTTP Client
+// =============================================================================
+
+/**
+ * Undici dispatcher shared by every request, keeping connections to the API alive
+ * Requests go through TELEGRAM_PROXY_URL when it is set
+ */
+const DispatcherLive = Layer.scoped(
+  NodeHttpClient.Dispatcher,
+  Effect.gen(function*() {
+    const keepAliveTimeout = yield* Config.withDefault(
+      Config.number("TELEGRAM_KEEP_ALIVE_TIMEOUT").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      30000
+    )
+    const connections = yield* Config.withDefault(
+      Config.number("TELEGRAM_MAX_CONNECTIONS").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      10
+    )
+    const proxyUrl = yield* Config.option(Config.url("TELEGRAM_PROXY_URL"))
+
+    return yield* Effect.acquireRelease(
+      Effect.sync(() =>
+        Option.match(proxyUrl, {
+          onNone: () => new Agent({ connections, keepAliveTimeout }),
+          onSome: (uri) => new ProxyAgent({ connections, keepAliveTimeout, uri: uri.href })
+        })
+      ),
+      (dispatcher) => Effect.promise(() => dispatcher.destroy())
+    )
+  })
+)
+
+/**
+ * Node undici HTTP client of the Telegram Bot API and the File Downloader
+ * Services. Provide it once, so they share its connection pool and the pool
+ * keeps to TELEGRAM_MAX_CONNECTIONS.
+ */
+export const NodeHttpClientLive = NodeHttpClient.layerUndiciWithoutDispatcher.pipe(
+  Layer.provide(DispatcherLive)
+)
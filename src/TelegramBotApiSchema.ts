@@ -0,0 +1,742 @@
+/**
+ * effect/Schema definitions for the core Telegram Bot API types
+ *
+ * The schemas validate the fields the bot relies on. Fields that are not
+ * declared here are not checked, and are kept in decoded responses.
+ */
+
+import { Schema } from "effect"
+import type { TelegramBotApi } from "./TelegramBotApi.js"
+
+// =============================================================================
+// Type Schemas
+// =============================================================================
+
+/**
+ * @see https://core.telegram.org/bots/api#user
+ */
+export const UserSchema = Schema.Struct({
+  id: Schema.Int,
+  is_bot: Schema.Boolean,
+  first_name: Schema.String,
+  last_name: Schema.optional(Schema.String),
+  username: Schema.optional(Schema.String),
+  language_code: Schema.optional(Schema.String),
+  is_premium: Schema.optional(Schema.Boolean)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#chat
+ */
+export const ChatSchema = Schema.Struct({
+  id: Schema.Int,
+  type: Schema.Literal("private", "group", "supergroup", "channel"),
+  title: Schema.optional(Schema.String),
+  username: Schema.optional(Schema.String),
+  first_name: Schema.optional(Schema.String),
+  last_name: Schema.optional(Schema.String),
+  is_forum: Schema.optional(Schema.Boolean)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#photosize
+ */
+export const PhotoSizeSchema = Schema.Struct({
+  file_id: Schema.String,
+  file_unique_id: Schema.String,
+  width: Schema.Int,
+  height: Schema.Int,
+  file_size: Schema.optional(Schema.Int)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#file
+ */
+export const FileSchema = Schema.Struct({
+  file_id: Schema.String,
+  file_unique_id: Schema.String,
+  file_size: Schema.optional(Schema.Int),
+  file_path: Schema.optional(Schema.String)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#document
+ */
+export const DocumentSchema = Schema.Struct({
+  file_id: Schema.String,
+  file_unique_id: Schema.String,
+  thumbnail: Schema.optional(PhotoSizeSchema),
+  file_name: Schema.optional(Schema.String),
+  mime_type: Schema.optional(Schema.String),
+  file_size: Schema.optional(Schema.Int)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#audio
+ */
+export const AudioSchema = Schema.Struct({
+  file_id: Schema.String,
+  file_unique_id: Schema.String,
+  duration: Schema.Int,
+  performer: Schema.optional(Schema.String),
+  title: Schema.optional(Schema.String),
+  file_name: Schema.optional(Schema.String),
+  mime_type: Schema.optional(Schema.String),
+  file_size: Schema.optional(Schema.Int),
+  thumbnail: Schema.optional(PhotoSizeSchema)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#video
+ */
+export const VideoSchema = Schema.Struct({
+  file_id: Schema.String,
+  file_unique_id: Schema.String,
+  width: Schema.Int,
+  height: Schema.Int,
+  duration: Schema.Int,
+  thumbnail: Schema.optional(PhotoSizeSchema),
+  file_name: Schema.optional(Schema.String),
+  mime_type: Schema.optional(Schema.String),
+  file_size: Schema.optional(Schema.Int)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#voice
+ */
+export const VoiceSchema = Schema.Struct({
+  file_id: Schema.String,
+  file_unique_id: Schema.String,
+  duration: Schema.Int,
+  mime_type: Schema.optional(Schema.String),
+  file_size: Schema.optional(Schema.Int)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#sticker
+ */
+export const StickerSchema = Schema.Struct({
+  file_id: Schema.String,
+  file_unique_id: Schema.String,
+  type: Schema.Literal("regular", "mask", "custom_emoji"),
+  width: Schema.Int,
+  height: Schema.Int,
+  is_animated: Schema.Boolean,
+  is_video: Schema.Boolean,
+  thumbnail: Schema.optional(PhotoSizeSchema),
+  emoji: Schema.optional(Schema.String),
+  set_name: Schema.optional(Schema.String),
+  file_size: Schema.optional(Schema.Int)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#location
+ */
+export const LocationSchema = Schema.Struct({
+  latitude: Schema.Number,
+  longitude: Schema.Number,
+  horizontal_accuracy: Schema.optional(Schema.Number),
+  live_period: Schema.optional(Schema.Int),
+  heading: Schema.optional(Schema.Int),
+  proximity_alert_radius: Schema.optional(Schema.Int)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#contact
+ */
+export const ContactSchema = Schema.Struct({
+  phone_number: Schema.String,
+  first_name: Schema.String,
+  last_name: Schema.optional(Schema.String),
+  user_id: Schema.optional(Schema.Int),
+  vcard: Schema.optional(Schema.String)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#messageentity
+ */
+export const MessageEntitySchema = Schema.Struct({
+  type: Schema.String,
+  offset: Schema.Int,
+  length: Schema.Int,
+  url: Schema.optional(Schema.String),
+  user: Schema.optional(UserSchema),
+  language: Schema.optional(Schema.String),
+  custom_emoji_id: Schema.optional(Schema.String)
+})
+
+/**
+ * The fields of a Message validated by MessageSchema
+ */
+export interface MessageSchemaType {
+  readonly message_id: number
+  readonly message_thread_id?: number | undefined
+  readonly from?: typeof UserSchema.Type | undefined
+  readonly sender_chat?: typeof ChatSchema.Type | undefined
+  readonly date: number
+  readonly chat: typeof ChatSchema.Type
+  readonly reply_to_message?: MessageSchemaType | undefined
+  readonly edit_date?: number | undefined
+  readonly media_group_id?: string | undefined
+  readonly text?: string | undefined
+  readonly entities?: ReadonlyArray<typeof MessageEntitySchema.Type> | undefined
+  readonly caption?: string | undefined
+  readonly caption_entities?: ReadonlyArray<typeof MessageEntitySchema.Type> | undefined
+  readonly audio?: typeof AudioSchema.Type | undefined
+  readonly document?: typeof DocumentSchema.Type | undefined
+  readonly photo?: ReadonlyArray<typeof PhotoSizeSchema.Type> | undefined
+  readonly sticker?: typeof StickerSchema.Type | undefined
+  readonly video?: typeof VideoSchema.Type | undefined
+  readonly voice?: typeof VoiceSchema.Type | undefined
+  readonly contact?: typeof ContactSchema.Type | undefined
+  readonly location?: typeof LocationSchema.Type | undefined
+}
+
+/**
+ * @see https://core.telegram.org/bots/api#message
+ */
+export const MessageSchema: Schema.Schema<MessageSchemaType> = Schema.Struct({
+  message_id: Schema.Int,
+  message_thread_id: Schema.optional(Schema.Int),
+  from: Schema.optional(UserSchema),
+  sender_chat: Schema.optional(ChatSchema),
+  date: Schema.Int,
+  chat: ChatSchema,
+  reply_to_message: Schema.optional(Schema.suspend((): Schema.Schema<MessageSchemaType> => MessageSchema)),
+  edit_date: Schema.optional(Schema.Int),
+  media_group_id: Schema.optional(Schema.String),
+  text: Schema.optional(Schema.String),
+  entities: Schema.optional(Schema.Array(MessageEntitySchema)),
+  caption: Schema.optional(Schema.String),
+  caption_entities: Schema.optional(Schema.Array(MessageEntitySchema)),
+  audio: Schema.optional(AudioSchema),
+  document: Schema.optional(DocumentSchema),
+  photo: Schema.optional(Schema.Array(PhotoSizeSchema)),
+  sticker: Schema.optional(StickerSchema),
+  video: Schema.optional(VideoSchema),
+  voice: Schema.optional(VoiceSchema),
+  contact: Schema.optional(ContactSchema),
+  location: Schema.optional(LocationSchema)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#inaccessiblemessage
+ */
+export const InaccessibleMessageSchema = Schema.Struct({
+  chat: ChatSchema,
+  message_id: Schema.Int,
+  date: Schema.Literal(0)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#messageid
+ */
+export const MessageIdSchema = Schema.Struct({
+  message_id: Schema.Int
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#callbackquery
+ */
+export const CallbackQuerySchema = Schema.Struct({
+  id: Schema.String,
+  from: UserSchema,
+  // InaccessibleMessage is tried first, its date of 0 tells both apart
+  message: Schema.optional(Schema.Union(InaccessibleMessageSchema, MessageSchema)),
+  inline_message_id: Schema.optional(Schema.String),
+  chat_instance: Schema.String,
+  data: Schema.optional(Schema.String),
+  game_short_name: Schema.optional(Schema.String)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#inlinequery
+ */
+export const InlineQuerySchema = Schema.Struct({
+  id: Schema.String,
+  from: UserSchema,
+  query: Schema.String,
+  offset: Schema.String,
+  chat_type: Schema.optional(Schema.String),
+  location: Schema.optional(LocationSchema)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#choseninlineresult
+ */
+export const ChosenInlineResultSchema = Schema.Struct({
+  result_id: Schema.String,
+  from: UserSchema,
+  location: Schema.optional(LocationSchema),
+  inline_message_id: Schema.optional(Schema.String),
+  query: Schema.String
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#chatmember
+ */
+export const ChatMemberSchema = Schema.Union(
+  Schema.Struct({
+    status: Schema.Literal("creator"),
+    user: UserSchema,
+    is_anonymous: Schema.Boolean,
+    custom_title: Schema.optional(Schema.String)
+  }),
+  Schema.Struct({
+    status: Schema.Literal("administrator"),
+    user: UserSchema,
+    can_be_edited: Schema.Boolean,
+    is_anonymous: Schema.Boolean,
+    can_manage_chat: Schema.Boolean,
+    can_delete_messages: Schema.Boolean,
+    can_restrict_members: Schema.Boolean,
+    can_promote_members: Schema.Boolean,
+    can_change_info: Schema.Boolean,
+    can_invite_users: Schema.Boolean,
+    custom_title: Schema.optional(Schema.String)
+  }),
+  Schema.Struct({
+    status: Schema.Literal("member"),
+    user: UserSchema,
+    until_date: Schema.optional(Schema.Int)
+  }),
+  Schema.Struct({
+    status: Schema.Literal("restricted"),
+    user: UserSchema,
+    is_member: Schema.Boolean,
+    until_date: Schema.Int
+  }),
+  Schema.Struct({
+    status: Schema.Literal("left"),
+    user: UserSchema
+  }),
+  Schema.Struct({
+    status: Schema.Literal("kicked"),
+    user: UserSchema,
+    until_date: Schema.Int
+  })
+)
+
+/**
+ * @see https://core.telegram.org/bots/api#chatmemberupdated
+ */
+export const ChatMemberUpdatedSchema = Schema.Struct({
+  chat: ChatSchema,
+  from: UserSchema,
+  date: Schema.Int,
+  old_chat_member: ChatMemberSchema,
+  new_chat_member: ChatMemberSchema
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#businessconnection
+ */
+export const BusinessConnectionSchema = Schema.Struct({
+  id: Schema.String,
+  user: UserSchema,
+  user_chat_id: Schema.Int,
+  date: Schema.Int,
+  is_enabled: Schema.Boolean
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#businessmessagesdeleted
+ */
+export const BusinessMessagesDeletedSchema = Schema.Struct({
+  business_connection_id: Schema.String,
+  chat: ChatSchema,
+  message_ids: Schema.Array(Schema.Int)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#reactiontype
+ */
+export const ReactionTypeSchema = Schema.Union(
+  Schema.Struct({
+    type: Schema.Literal("emoji"),
+    emoji: Schema.String
+  }),
+  Schema.Struct({
+    type: Schema.Literal("custom_emoji"),
+    custom_emoji_id: Schema.String
+  }),
+  Schema.Struct({
+    type: Schema.Literal("paid")
+  })
+)
+
+/**
+ * @see https://core.telegram.org/bots/api#messagereactionupdated
+ */
+export const MessageReactionUpdatedSchema = Schema.Struct({
+  chat: ChatSchema,
+  message_id: Schema.Int,
+  user: Schema.optional(UserSchema),
+  actor_chat: Schema.optional(ChatSchema),
+  date: Schema.Int,
+  old_reaction: Schema.Array(ReactionTypeSchema),
+  new_reaction: Schema.Array(ReactionTypeSchema)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#messagereactioncountupdated
+ */
+export const MessageReactionCountUpdatedSchema = Schema.Struct({
+  chat: ChatSchema,
+  message_id: Schema.Int,
+  date: Schema.Int,
+  reactions: Schema.Array(Schema.Struct({
+    type: ReactionTypeSchema,
+    total_count: Schema.Int
+  }))
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#shippingaddress
+ */
+export const ShippingAddressSchema = Schema.Struct({
+  country_code: Schema.String,
+  state: Schema.String,
+  city: Schema.String,
+  street_line1: Schema.String,
+  street_line2: Schema.String,
+  post_code: Schema.String
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#shippingquery
+ */
+export const ShippingQuerySchema = Schema.Struct({
+  id: Schema.String,
+  from: UserSchema,
+  invoice_payload: Schema.String,
+  shipping_address: ShippingAddressSchema
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#precheckoutquery
+ */
+export const PreCheckoutQuerySchema = Schema.Struct({
+  id: Schema.String,
+  from: UserSchema,
+  currency: Schema.String,
+  total_amount: Schema.Int,
+  invoice_payload: Schema.String,
+  shipping_option_id: Schema.optional(Schema.String),
+  order_info: Schema.optional(Schema.Struct({
+    name: Schema.optional(Schema.String),
+    phone_number: Schema.optional(Schema.String),
+    email: Schema.optional(Schema.String),
+    shipping_address: Schema.optional(ShippingAddressSchema)
+  }))
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#paidmediapurchased
+ */
+export const PaidMediaPurchasedSchema = Schema.Struct({
+  from: UserSchema,
+  paid_media_payload: Schema.String
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#poll
+ */
+export const PollSchema = Schema.Struct({
+  id: Schema.String,
+  question: Schema.String,
+  options: Schema.Array(Schema.Struct({
+    text: Schema.String,
+    voter_count: Schema.Int
+  })),
+  total_voter_count: Schema.Int,
+  is_closed: Schema.Boolean,
+  is_anonymous: Schema.Boolean,
+  type: Schema.Literal("regular", "quiz"),
+  allows_multiple_answers: Schema.Boolean,
+  correct_option_id: Schema.optional(Schema.Int)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#pollanswer
+ */
+export const PollAnswerSchema = Schema.Struct({
+  poll_id: Schema.String,
+  voter_chat: Schema.optional(ChatSchema),
+  user: Schema.optional(UserSchema),
+  option_ids: Schema.Array(Schema.Int)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#chatjoinrequest
+ */
+export const ChatJoinRequestSchema = Schema.Struct({
+  chat: ChatSchema,
+  from: UserSchema,
+  user_chat_id: Schema.Int,
+  date: Schema.Int,
+  bio: Schema.optional(Schema.String),
+  invite_link: Schema.optional(Schema.Struct({
+    invite_link: Schema.String,
+    creator: UserSchema,
+    creates_join_request: Schema.Boolean,
+    is_primary: Schema.Boolean,
+    is_revoked: Schema.Boolean
+  }))
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#chatboostsource
+ */
+export const ChatBoostSourceSchema = Schema.Union(
+  Schema.Struct({
+    source: Schema.Literal("premium", "gift_code"),
+    user: UserSchema
+  }),
+  Schema.Struct({
+    source: Schema.Literal("giveaway"),
+    giveaway_message_id: Schema.Int,
+    user: Schema.optional(UserSchema),
+    prize_star_count: Schema.optional(Schema.Int),
+    is_unclaimed: Schema.optional(Schema.Literal(true))
+  })
+)
+
+/**
+ * @see https://core.telegram.org/bots/api#chatboostupdated
+ */
+export const ChatBoostUpdatedSchema = Schema.Struct({
+  chat: ChatSchema,
+  boost: Schema.Struct({
+    boost_id: Schema.String,
+    add_date: Schema.Int,
+    expiration_date: Schema.Int,
+    source: ChatBoostSourceSchema
+  })
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#chatboostremoved
+ */
+export const ChatBoostRemovedSchema = Schema.Struct({
+  chat: ChatSchema,
+  boost_id: Schema.String,
+  remove_date: Schema.Int,
+  source: ChatBoostSourceSchema
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#update
+ */
+export const UpdateSchema = Schema.Struct({
+  update_id: Schema.Int,
+  message: Schema.optional(MessageSchema),
+  edited_message: Schema.optional(MessageSchema),
+  channel_post: Schema.optional(MessageSchema),
+  edited_channel_post: Schema.optional(MessageSchema),
+  business_connection: Schema.optional(BusinessConnectionSchema),
+  business_message: Schema.optional(MessageSchema),
+  edited_business_message: Schema.optional(MessageSchema),
+  deleted_business_messages: Schema.optional(BusinessMessagesDeletedSchema),
+  message_reaction: Schema.optional(MessageReactionUpdatedSchema),
+  message_reaction_count: Schema.optional(MessageReactionCountUpdatedSchema),
+  inline_query: Schema.optional(InlineQuerySchema),
+  chosen_inline_result: Schema.optional(ChosenInlineResultSchema),
+  callback_query: Schema.optional(CallbackQuerySchema),
+  shipping_query: Schema.optional(ShippingQuerySchema),
+  pre_checkout_query: Schema.optional(PreCheckoutQuerySchema),
+  purchased_paid_media: Schema.optional(PaidMediaPurchasedSchema),
+  poll: Schema.optional(PollSchema),
+  poll_answer: Schema.optional(PollAnswerSchema),
+  my_chat_member: Schema.optional(ChatMemberUpdatedSchema),
+  chat_member: Schema.optional(ChatMemberUpdatedSchema),
+  chat_join_request: Schema.optional(ChatJoinRequestSchema),
+  chat_boost: Schema.optional(ChatBoostUpdatedSchema),
+  removed_chat_boost: Schema.optional(ChatBoostRemovedSchema)
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#userprofilephotos
+ */
+export const UserProfilePhotosSchema = Schema.Struct({
+  total_count: Schema.Int,
+  photos: Schema.Array(Schema.Array(PhotoSizeSchema))
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#webhookinfo
+ */
+export const WebhookInfoSchema = Schema.Struct({
+  url: Schema.String,
+  has_custom_certificate: Schema.Boolean,
+  pending_update_count: Schema.Int,
+  ip_address: Schema.optional(Schema.String),
+  last_error_date: Schema.optional(Schema.Int),
+  last_error_message: Schema.optional(Schema.String),
+  max_connections: Schema.optional(Schema.Int),
+  allowed_updates: Schema.optional(Schema.Array(Schema.String))
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#botcommand
+ */
+export const BotCommandSchema = Schema.Struct({
+  command: Schema.String,
+  description: Schema.String
+})
+
+/**
+ * @see https://core.telegram.org/bots/api#story
+ */
+export const StorySchema = Schema.Struct({
+  chat: ChatSchema,
+  id: Schema.Int
+})
+
+// Methods that only report success return True
+const TrueSchema = Schema.Literal(true)
+
+// =============================================================================
+// Response Schemas
+// =============================================================================
+
+/**
+ * The schema of the result of each method that supports response decoding
+ * Methods without an entry are returned as received
+ */
+export const responseSchemas: Partial<Record<keyof TelegramBotApi, Schema.Schema.AnyNoContext>> = {
+  addStickerToSet: TrueSchema,
+  answerCallbackQuery: TrueSchema,
+  answerInlineQuery: TrueSchema,
+  answerPreCheckoutQuery: TrueSchema,
+  answerShippingQuery: TrueSchema,
+  approveChatJoinRequest: TrueSchema,
+  approveSuggestedPost: TrueSchema,
+  banChatMember: TrueSchema,
+  banChatSenderChat: TrueSchema,
+  close: TrueSchema,
+  closeForumTopic: TrueSchema,
+  closeGeneralForumTopic: TrueSchema,
+  convertGiftToStars: TrueSchema,
+  copyMessage: MessageIdSchema,
+  copyMessages: Schema.Array(MessageIdSchema),
+  createInvoiceLink: Schema.String,
+  createNewStickerSet: TrueSchema,
+  declineChatJoinRequest: TrueSchema,
+  declineSuggestedPost: TrueSchema,
+  deleteBusinessMessages: TrueSchema,
+  deleteChatPhoto: TrueSchema,
+  deleteChatStickerSet: TrueSchema,
+  deleteForumTopic: TrueSchema,
+  deleteMessage: TrueSchema,
+  deleteMessages: TrueSchema,
+  deleteMyCommands: TrueSchema,
+  deleteStickerFromSet: TrueSchema,
+  deleteStickerSet: TrueSchema,
+  deleteStory: TrueSchema,
+  deleteWebhook: TrueSchema,
+  editForumTopic: TrueSchema,
+  editGeneralForumTopic: TrueSchema,
+  editMessageCaption: Schema.Union(MessageSchema, TrueSchema),
+  editMessageChecklist: Schema.Union(MessageSchema, TrueSchema),
+  editMessageLiveLocation: Schema.Union(MessageSchema, TrueSchema),
+  editMessageMedia: Schema.Union(MessageSchema, TrueSchema),
+  editMessageReplyMarkup: Schema.Union(MessageSchema, TrueSchema),
+  editMessageText: Schema.Union(MessageSchema, TrueSchema),
+  editStory: StorySchema,
+  editUserStarSubscription: TrueSchema,
+  exportChatInviteLink: Schema.String,
+  forwardMessage: MessageSchema,
+  forwardMessages: Schema.Array(MessageIdSchema),
+  getChatAdministrators: Schema.Array(ChatMemberSchema),
+  getChatMember: ChatMemberSchema,
+  getChatMemberCount: Schema.Int,
+  getCustomEmojiStickers: Schema.Array(StickerSchema),
+  getFile: FileSchema,
+  getForumTopicIconStickers: Schema.Array(StickerSchema),
+  getMe: UserSchema,
+  getMyCommands: Schema.Array(BotCommandSchema),
+  getUpdates: Schema.Array(UpdateSchema),
+  getUserProfilePhotos: UserProfilePhotosSchema,
+  getWebhookInfo: WebhookInfoSchema,
+  giftPremiumSubscription: TrueSchema,
+  hideGeneralForumTopic: TrueSchema,
+  leaveChat: TrueSchema,
+  logOut: TrueSchema,
+  pinChatMessage: TrueSchema,
+  postStory: StorySchema,
+  promoteChatMember: TrueSchema,
+  readBusinessMessage: TrueSchema,
+  refundStarPayment: TrueSchema,
+  removeBusinessAccountProfilePhoto: TrueSchema,
+  removeChatVerification: TrueSchema,
+  removeUserVerification: TrueSchema,
+  reopenForumTopic: TrueSchema,
+  reopenGeneralForumTopic: TrueSchema,
+  replaceStickerInSet: TrueSchema,
+  restrictChatMember: TrueSchema,
+  sendAnimation: MessageSchema,
+  sendAudio: MessageSchema,
+  sendChatAction: TrueSchema,
+  sendChecklist: MessageSchema,
+  sendContact: MessageSchema,
+  sendDice: MessageSchema,
+  sendDocument: MessageSchema,
+  sendGame: MessageSchema,
+  sendGift: TrueSchema,
+  sendInvoice: MessageSchema,
+  sendLocation: MessageSchema,
+  sendMediaGroup: Schema.Array(MessageSchema),
+  sendMessage: MessageSchema,
+  sendPaidMedia: MessageSchema,
+  sendPhoto: MessageSchema,
+  sendPoll: MessageSchema,
+  sendSticker: MessageSchema,
+  sendVenue: MessageSchema,
+  sendVideo: MessageSchema,
+  sendVideoNote: MessageSchema,
+  sendVoice: MessageSchema,
+  setBusinessAccountBio: TrueSchema,
+  setBusinessAccountGiftSettings: TrueSchema,
+  setBusinessAccountName: TrueSchema,
+  setBusinessAccountProfilePhoto: TrueSchema,
+  setBusinessAccountUsername: TrueSchema,
+  setChatAdministratorCustomTitle: TrueSchema,
+  setChatDescription: TrueSchema,
+  setChatMenuButton: TrueSchema,
+  setChatPermissions: TrueSchema,
+  setChatPhoto: TrueSchema,
+  setChatStickerSet: TrueSchema,
+  setChatTitle: TrueSchema,
+  setCustomEmojiStickerSetThumbnail: TrueSchema,
+  setGameScore: Schema.Union(MessageSchema, TrueSchema),
+  setMessageReaction: TrueSchema,
+  setMyCommands: TrueSchema,
+  setMyDefaultAdministratorRights: TrueSchema,
+  setMyDescription: TrueSchema,
+  setMyName: TrueSchema,
+  setMyShortDescription: TrueSchema,
+  setPassportDataErrors: TrueSchema,
+  setStickerEmojiList: TrueSchema,
+  setStickerKeywords: TrueSchema,
+  setStickerMaskPosition: TrueSchema,
+  setStickerPositionInSet: TrueSchema,
+  setStickerSetThumbnail: TrueSchema,
+  setStickerSetTitle: TrueSchema,
+  setUserEmojiStatus: TrueSchema,
+  setWebhook: TrueSchema,
+  stopMessageLiveLocation: Schema.Union(MessageSchema, TrueSchema),
+  transferBusinessAccountStars: TrueSchema,
+  transferGift: TrueSchema,
+  unbanChatMember: TrueSchema,
+  unbanChatSenderChat: TrueSchema,
+  unhideGeneralForumTopic: TrueSchema,
+  unpinAllChatMessages: TrueSchema,
+  unpinAllForumTopicMessages: TrueSchema,
+  unpinAllGeneralForumTopicMessages: TrueSchema,
+  unpinChatMessage: TrueSchema,
+  upgradeGift: TrueSchema,
+  uploadStickerFile: FileSchema,
+  verifyChat: TrueSchema,
+  verifyUser: TrueSchema
+}
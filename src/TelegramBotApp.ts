@@ -1,120 +1,79 @@
-import { Duration, Effect, pipe, Schedule } from "effect"
+import { NodeFileSystem, NodeRuntime } from "@effect/platform-node"
+import { Config, Effect, Layer, Option, pipe } from "effect"
 
-import { CommandManagerContext, CommandManagerLive } from "./CommandManager.js"
-import {
-  formCommandHandler,
-  formListCommandHandler,
-  helpCommandHandler,
-  historybackCommandHandler,
-  historypushCommandHandler,
-  photo1CommandHandler,
-  photo2CommandHandler,
-  photo3CommandHandler,
-  photoCommandHandler,
-  startCommandHandler
-} from "./CommandManagerApp.js"
-import { createForm, createFormStep, FormCacheLive, FormManagerContext, FormManagerLive } from "./Form.js"
-import { HistoryCacheLive } from "./HistoryCache.js"
-import { MessageCacheLive } from "./MessageCache.js"
+import { BotInstancesConfig, runBotInstances } from "./BotInstance.js"
+import { CommandManagerContext } from "./CommandManager.js"
+import { FileDownloaderConfigLive, FileDownloaderLive } from "./FileDownloader.js"
+import { OffsetStoreLive } from "./OffsetStore.js"
+import { RateLimiterConfigLive, RateLimiterLive } from "./RateLimiter.js"
 import {
+  logOutFromCloud,
   TelegramBotApiConfigContext,
   TelegramBotApiConfigLive,
-  TelegramBotApiContext,
   TelegramBotApiLive
 } from "./TelegramBotApi.js"
+import { NodeHttpClientLive } from "./TelegramBotApiNode.js"
+import { UpdateDispatcherConfigLive, UpdateDispatcherLive } from "./UpdateDispatcher.js"
+import { UpdateHandlerAppLive } from "./UpdateHandlerApp.js"
+import { PollingConfigLive, UpdatePollerContext, UpdatePollerLive } from "./UpdatePoller.js"
+import { WebhookServerConfigLive, WebhookServerNodeLive } from "./WebhookServer.js"
 
 // Application logic to handle incoming messages
 const handleUpdates = Effect.gen(function*() {
-  const commandManager = yield* CommandManagerContext
-  const formManager = yield* FormManagerContext
-  const telegramBotApi = yield* TelegramBotApiContext
+  // Moving the bot to a local Bot API server requires logging it out from the cloud server once,
+  // a restart with the setting still on is rejected by the cloud server, which must not stop the bot
   const telegramBotApiConfig = yield* TelegramBotApiConfigContext
-
-  let offset = 0 // To track the latest update ID
-
-  // Register built-in commands
-  yield* commandManager.register("help", helpCommandHandler)
-  yield* commandManager.register("photo", photoCommandHandler)
-  yield* commandManager.register("photo1", photo1CommandHandler)
-  yield* commandManager.register("photo2", photo2CommandHandler)
-  yield* commandManager.register("photo3", photo3CommandHandler)
-  yield* commandManager.register("start", startCommandHandler)
-  yield* commandManager.register("historypush", historypushCommandHandler)
-  yield* commandManager.register("historyback", historybackCommandHandler)
-  yield* commandManager.register("form", formCommandHandler)
-  yield* commandManager.register("formlist", formListCommandHandler)
-
-  // Example form registration
-  const registrationForm = createForm(
-    "registration",
-    [
-      createFormStep("What is your name?", "name"),
-      createFormStep("What is your email address?", "email"),
-      createFormStep("What is your age?", "age")
-    ],
-    (chatId, results, telegramBotApi) =>
-      Effect.gen(function*() {
-        const text = `Registration complete!\n\nName: ${results.name}\nEmail: ${results.email}\nAge: ${results.age}`
-        // Send the completion message to the user
-        yield* telegramBotApi.sendMessage({ chat_id: chatId, text })
-      })
+  const logOut = yield* Config.withDefault(Config.boolean("TELEGRAM_LOG_OUT_FROM_CLOUD"), false)
+  if (telegramBotApiConfig.localMode && logOut) {
+    yield* logOutFromCloud.pipe(
+      Effect.catchAll((error) => Effect.logWarning(`Failed to log out from the cloud server: ${error.message}`))
+    )
+  }
+  // Make the command menu match the registered commands, a bot without a menu still works
+  const commandManager = yield* CommandManagerContext
+  yield* commandManager.syncCommands.pipe(
+    Effect.catchAll((error) => Effect.logWarning(`Failed to set the command menu: ${error.message}`))
   )
+  // Receive updates through a webhook when a public URL is configured, otherwise long poll
+  const webhookUrl = yield* Config.option(Config.string("TELEGRAM_WEBHOOK_URL"))
+  if (Option.isSome(webhookUrl)) {
+    return yield* Layer.launch(WebhookServerNodeLive.pipe(Layer.provide(WebhookServerConfigLive)))
+  }
+  const updatePoller = yield* UpdatePollerContext
+  yield* updatePoller.run
+})
 
-  yield* formManager.registerForm(registrationForm)
+// The application with its services, built anew for every bot it runs as
+const app = pipe(
+  handleUpdates,
+  Effect.provide(UpdatePollerLive),
+  Effect.provide(PollingConfigLive),
+  Effect.provide(OffsetStoreLive),
+  Effect.provide(UpdateDispatcherLive),
+  Effect.provide(UpdateDispatcherConfigLive),
+  Effect.provide(UpdateHandlerAppLive),
+  Effect.provide(FileDownloaderLive),
+  Effect.provide(FileDownloaderConfigLive),
+  Effect.provide(TelegramBotApiLive),
+  Effect.provide(RateLimiterLive),
+  Effect.provide(RateLimiterConfigLive),
+  // A single connection pool, shared by the API client, the file downloader and logging out
+  Effect.provide(NodeHttpClientLive),
+  Effect.provide(TelegramBotApiConfigLive)
+)
 
-  // Infinite loop to continuously poll for updates
-  yield* Effect.forever(
-    Effect.gen(function*() {
-      // Get updates from the bot API
-      const updates = yield* telegramBotApi.getUpdates({
-        allowed_updates: ["message"], // Only get message updates
-        offset: offset + 1, // Start from the next update after the last one
-        timeout: telegramBotApiConfig.timeout / 1000 // Long polling timeout in seconds
-      })
-      // Process each update
-      for (const update of updates) {
-        yield* Effect.logInfo("Processing update:", update)
-        // Check if the update contains a message
-        if (update.message && update.message.from && update.message.text) {
-          yield* Effect.logInfo(`Received message from user ${update.message.from.id}: ${update.message.text}`)
-          // Check if the message is a command
-          if (update.message.text.startsWith("/")) {
-            yield* commandManager.handle(update.message.text, update.message.chat.id, update.message.from.id)
-          } else {
-            const text = "hi"
-            // Check if user is filling out a form
-            yield* formManager.processInput(update.message.chat.id, update.message.text, telegramBotApi).pipe(
-              Effect.catchTag("FormManagerNoActiveFormError", () =>
-                telegramBotApi.sendMessage({
-                  chat_id: update.message?.chat.id || 0,
-                  reply_parameters: { message_id: update.message?.message_id || 0 },
-                  text
-                }))
-            )
-            yield* Effect.logInfo(`Replied to user ${update.message.from.id} with "${text}"`)
-          }
-        }
-        // Update offset to the latest processed update ID
-        if (update.update_id >= offset) {
-          offset = update.update_id
-        }
-      }
-    })
-  ).pipe(Effect.schedule(Schedule.spaced(Duration.seconds(telegramBotApiConfig.timeout / 1000))))
+// Host every bot of TELEGRAM_BOTS side by side, or the single bot of TELEGRAM_BOT_TOKEN
+const main = Effect.gen(function*() {
+  const bots = yield* Config.option(BotInstancesConfig)
+  return yield* Option.isSome(bots) ? runBotInstances(bots.value, app) : app
 })
 
 // Main application
 pipe(
-  handleUpdates,
-  Effect.provide(CommandManagerLive),
-  Effect.provide(FormManagerLive),
-  Effect.provide(FormCacheLive),
-  Effect.provide(HistoryCacheLive),
-  Effect.provide(MessageCacheLive),
-  Effect.provide(TelegramBotApiLive),
-  Effect.provide(TelegramBotApiConfigLive),
-  Effect.catchAll(Effect.die),
-  Effect.runPromise
+  main,
+  Effect.provide(NodeFileSystem.layer),
+  // Interrupts on SIGINT and SIGTERM, letting in-flight updates finish before exiting
+  NodeRuntime.runMain
 )
 
 console.log("Telegram Bot App started. Press Ctrl+C to stop.")
@@ -0,0 +1,548 @@
+import { HttpClient, HttpClientError, type HttpClientRequest, HttpClientResponse } from "@effect/platform"
+import { NodeFileSystem } from "@effect/platform-node"
+import { Chunk, Clock, Context, Deferred, Duration, Effect, Layer, Redacted, Ref, Stream } from "effect"
+import { RateLimiterConfigContext, RateLimiterContext, RateLimiterLive } from "./RateLimiter.js"
+import {
+  type CallbackQuery,
+  type Chat,
+  type ChatMemberAdministrator,
+  type File,
+  type InlineKeyboardMarkup,
+  type Message,
+  type TelegramBotApiConfig,
+  TelegramBotApiConfigContext,
+  TelegramBotApiLive,
+  type Update,
+  type User
+} from "./TelegramBotApi.js"
+
+// =============================================================================
+// Mock Telegram Server
+// =============================================================================
+
+/**
+ * A call the bot made to the Telegram Bot API
+ */
+export interface MockTelegramCall {
+  readonly method: string
+  /** The parameters of the call, uploaded files are recorded by name, type and size */
+  readonly params: Record<string, unknown>
+}
+
+/**
+ * In-process stand-in for the Telegram Bot API, answering the requests of TelegramBotApiLive
+ */
+export interface MockTelegramServer {
+  /** The user the bot runs as, returned by getMe and set as sender of its messages */
+  readonly bot: User
+  /**
+   * Register a file that can be fetched with getFile and downloaded
+   * @param content The contents of the file
+   */
+  addFile(content: string | Uint8Array): Effect.Effect<File>
+  /**
+   * Every call the bot made so far, in order
+   */
+  readonly calls: Effect.Effect<Array<MockTelegramCall>>
+  /**
+   * Forget the calls recorded so far
+   */
+  readonly clearCalls: Effect.Effect<void>
+  /**
+   * Answer the next call of a method with an error instead of its result
+   * @param method The method to fail, e.g. getUpdates
+   * @param errorCode The HTTP status and error_code of the response
+   * @param description The description of the error, as Telegram words it
+   */
+  failNextCall(method: string, errorCode: number, description: string): Effect.Effect<void>
+  /**
+   * Simulate a user pressing an inline keyboard button
+   * @param data The callback data of the button
+   * @param message The message the button is attached to
+   * @param from The user pressing the button, defaults to the chat's user
+   */
+  pushCallbackQuery(data: string, message: Message, from?: User): Effect.Effect<CallbackQuery>
+  /**
+   * Simulate a user editing one of their messages
+   * @param message The message to edit
+   * @param text The new text of the message
+   */
+  pushEditedMessage(message: Message, text: string): Effect.Effect<Message>
+  /**
+   * Simulate a user sending a message, commands in a text get a bot_command entity
+   * @param content The text of the message, or its content such as a photo with a caption
+   * @param options The chat and user sending the message, default to a private chat with user 1
+   */
+  pushMessage(
+    content: string | Partial<Message>,
+    options?: { readonly chat?: Chat; readonly from?: User }
+  ): Effect.Effect<Message>
+  /**
+   * Queue an update to be returned by getUpdates
+   * @param update The update, its update_id is assigned by the server
+   */
+  pushUpdate(update: Omit<Update, "update_id">): Effect.Effect<Update>
+  /**
+   * The messages sent by the bot so far, in order, as last edited
+   */
+  readonly sentMessages: Effect.Effect<Array<Message>>
+}
+
+export class MockTelegramServerContext extends Context.Tag(
+  "@context/MockTelegramServer"
+)<MockTelegramServerContext, MockTelegramServer>() {}
+
+/**
+ * An error response of the mock server, mirroring Telegram's descriptions
+ */
+class MockTelegramError {
+  constructor(readonly errorCode: number, readonly description: string) {}
+}
+
+const DEFAULT_USER: User = { first_name: "User", id: 1, is_bot: false }
+
+const textDecoder = new TextDecoder()
+
+/**
+ * Reads the parameters of a request, whether sent as JSON or as multipart/form-data
+ * @param request The request to read
+ * @returns The parameters, with uploaded files replaced by their name, type and size
+ */
+const readParams = (request: HttpClientRequest.HttpClientRequest) =>
+  Effect.gen(function*() {
+    const body = request.body
+    if (body._tag === "Uint8Array") {
+      return JSON.parse(textDecoder.decode(body.body)) as Record<string, unknown>
+    }
+    if (body._tag !== "Stream") {
+      return {}
+    }
+    const chunks = yield* Stream.runCollect(body.stream).pipe(Effect.orDie)
+    // latin1 keeps one character per byte, so file sizes stay correct
+    const content = Buffer.concat(Chunk.toArray(chunks)).toString("latin1")
+    const boundary = /boundary=(.+)$/.exec(body.contentType)?.[1] ?? ""
+    const params: Record<string, unknown> = {}
+    for (const part of content.split(`--${boundary}`).slice(1, -1)) {
+      const separator = part.indexOf("\r\n\r\n")
+      const headers = part.slice(0, separator)
+      const value = part.slice(separator + 4, -2)
+      const name = /name="([^"]*)"/.exec(headers)?.[1] ?? ""
+      const filename = /filename="([^"]*)"/.exec(headers)?.[1]
+      if (filename !== undefined) {
+        const mime_type = /Content-Type: (.+)/.exec(headers)?.[1] ?? ""
+        params[name] = { filename, mime_type, size: value.length }
+      } else {
+        params[name] = value.startsWith("{") || value.startsWith("[")
+          ? JSON.parse(Buffer.from(value, "latin1").toString())
+          : Buffer.from(value, "latin1").toString()
+      }
+    }
+    return params
+  })
+
+export const MockTelegramServerLive = Layer.effectContext(
+  Effect.gen(function*() {
+    const bot: User = { first_name: "Test Bot", id: 1000, is_bot: true, username: "test_bot" }
+    // The administrators of each chat, made so by promoteChatMember
+    const adminsRef = yield* Ref.make(new Map<number, Array<number>>())
+    const callsRef = yield* Ref.make<Array<MockTelegramCall>>([])
+    const chatsRef = yield* Ref.make(new Map<number, Chat>())
+    const failuresRef = yield* Ref.make<Array<{ readonly error: MockTelegramError; readonly method: string }>>([])
+    const filesRef = yield* Ref.make(new Map<string, { content: Uint8Array; file: File }>())
+    // Message ids are sequential per chat, shared by user and bot messages
+    const messageIdsRef = yield* Ref.make(new Map<number, number>())
+    const messagesRef = yield* Ref.make(new Map<string, Message>())
+    const sentMessagesRef = yield* Ref.make<Array<string>>([])
+    const updatesRef = yield* Ref.make<Array<Update>>([])
+    // Completed whenever an update is queued, waking up long polling requests
+    const updateQueuedRef = yield* Ref.make(yield* Deferred.make<void>())
+    const nextUpdateIdRef = yield* Ref.make(1)
+    const nextIdRef = yield* Ref.make(1)
+
+    const nextId = Ref.getAndUpdate(nextIdRef, (id) => id + 1)
+    const messageKey = (chatId: number, messageId: number) => `${chatId}:${messageId}`
+
+    const getChat = (chatId: unknown) =>
+      Effect.gen(function*() {
+        const id = Number(chatId)
+        const chats = yield* Ref.get(chatsRef)
+        return chats.get(id) ?? (id > 0
+          ? { first_name: "User", id, type: "private" }
+          : { id, title: "Group", type: "supergroup" })
+      })
+
+    const makeMessage = (chat: Chat, from: User, fields: Partial<Message>) =>
+      Effect.gen(function*() {
+        const date = Math.floor((yield* Clock.currentTimeMillis) / 1000)
+        const message_id = yield* Ref.modify(messageIdsRef, (ids) => {
+          const id = (ids.get(chat.id) ?? 0) + 1
+          return [id, ids.set(chat.id, id)]
+        })
+        const message: Message = { chat, date, from, message_id, ...fields }
+        yield* Ref.update(chatsRef, (chats) => chats.set(chat.id, chat))
+        yield* Ref.update(messagesRef, (messages) => messages.set(messageKey(chat.id, message_id), message))
+        return message
+      })
+
+    const sendMessage = (params: Record<string, unknown>, fields: Partial<Message>) =>
+      Effect.gen(function*() {
+        const chat = yield* getChat(params.chat_id)
+        const message = yield* makeMessage(chat, bot, {
+          ...fields,
+          ...params.reply_markup ? { reply_markup: params.reply_markup as InlineKeyboardMarkup } : {}
+        })
+        yield* Ref.update(sentMessagesRef, (keys) => [...keys, messageKey(chat.id, message.message_id)])
+        return message
+      })
+
+    const findMessage = (params: Record<string, unknown>, notFound: string) =>
+      Effect.gen(function*() {
+        const messages = yield* Ref.get(messagesRef)
+        const message = messages.get(messageKey(Number(params.chat_id), Number(params.message_id)))
+        return message ?? (yield* Effect.fail(new MockTelegramError(400, `Bad Request: ${notFound}`)))
+      })
+
+    const pushUpdate = (update: Omit<Update, "update_id">) =>
+      Effect.gen(function*() {
+        const update_id = yield* Ref.getAndUpdate(nextUpdateIdRef, (id) => id + 1)
+        const queued = { ...update, update_id } as Update
+        yield* Ref.update(updatesRef, (updates) => [...updates, queued])
+        const updateQueued = yield* Ref.getAndSet(updateQueuedRef, yield* Deferred.make<void>())
+        yield* Deferred.succeed(updateQueued, undefined)
+        return queued
+      })
+
+    const takeUpdates = (params: Record<string, unknown>) =>
+      Ref.modify(updatesRef, (updates) => {
+        // Requesting an offset confirms every update before it
+        const offset = Number(params.offset ?? 0)
+        const pending = updates.filter((update) => update.update_id >= offset)
+        // Updates of types that are not allowed are dropped, as Telegram does
+        const allowedUpdates = Array.isArray(params.allowed_updates) && params.allowed_updates.length > 0
+          ? params.allowed_updates as Array<string>
+          : undefined
+        const allowed = allowedUpdates
+          ? pending.filter((update) => Object.keys(update).some((key) => allowedUpdates.includes(key)))
+          : pending
+        return [allowed.slice(0, Number(params.limit ?? 100)), allowed]
+      })
+
+    // A placeholder file for each uploaded or referenced file, keyed by the parameter
+    const makeMedia = (params: Record<string, unknown>, key: string) => ({
+      file_id: typeof params[key] === "string" ? params[key] : `${key}-${Object.keys(params).length}`,
+      file_unique_id: `${key}-unique`
+    })
+
+    // An administrator allowed to manage the chat only
+    const makeAdministrator = (id: number): ChatMemberAdministrator => ({
+      can_be_edited: true,
+      can_change_info: false,
+      can_delete_messages: false,
+      can_delete_stories: false,
+      can_edit_stories: false,
+      can_invite_users: false,
+      can_manage_chat: true,
+      can_manage_video_chats: false,
+      can_post_stories: false,
+      can_promote_members: false,
+      can_restrict_members: false,
+      is_anonymous: false,
+      status: "administrator",
+      user: { ...DEFAULT_USER, id }
+    })
+
+    const handleMethod = (
+      method: string,
+      params: Record<string, unknown>
+    ): Effect.Effect<unknown, MockTelegramError> => {
+      const caption = typeof params.caption === "string" ? { caption: params.caption } : {}
+      switch (method) {
+        case "getMe":
+          return Effect.succeed(bot)
+        case "getUpdates":
+          return Effect.gen(function*() {
+            const updateQueued = yield* Ref.get(updateQueuedRef)
+            const updates = yield* takeUpdates(params)
+            const timeout = Number(params.timeout ?? 0)
+            if (updates.length > 0 || timeout <= 0) {
+              return updates
+            }
+            // Long polling, wait for an update to be queued or for the timeout to pass
+            yield* Deferred.await(updateQueued).pipe(Effect.timeoutOption(Duration.seconds(timeout)))
+            return yield* takeUpdates(params)
+          })
+        case "sendMessage":
+          return sendMessage(params, { text: String(params.text) })
+        case "sendPhoto":
+          return sendMessage(params, { ...caption, photo: [{ ...makeMedia(params, "photo"), height: 1, width: 1 }] })
+        case "sendDocument":
+          return sendMessage(params, { ...caption, document: makeMedia(params, "document") })
+        case "editMessageText":
+          if (params.inline_message_id) {
+            return Effect.succeed(true)
+          }
+          return Effect.gen(function*() {
+            const message = yield* findMessage(params, "message to edit not found")
+            if (
+              message.text === params.text &&
+              JSON.stringify(message.reply_markup) === JSON.stringify(params.reply_markup)
+            ) {
+              return yield* Effect.fail(
+                new MockTelegramError(
+                  400,
+                  "Bad Request: message is not modified: specified new message content and reply markup are exactly the same as a current content and reply markup of the message"
+                )
+              )
+            }
+            const { reply_markup: _, ...rest } = message
+            const edited: Message = {
+              ...rest,
+              edit_date: Math.floor((yield* Clock.currentTimeMillis) / 1000),
+              text: String(params.text),
+              ...params.reply_markup ? { reply_markup: params.reply_markup as InlineKeyboardMarkup } : {}
+            }
+            yield* Ref.update(
+              messagesRef,
+              (messages) => messages.set(messageKey(message.chat.id, message.message_id), edited)
+            )
+            return edited
+          })
+        case "promoteChatMember":
+          // Granting any right makes the user an administrator, granting none demotes them
+          return Ref.update(adminsRef, (admins) => {
+            const chatAdmins = (admins.get(Number(params.chat_id)) ?? []).filter((id) => id !== Number(params.user_id))
+            const promoted = Object.entries(params).some(([key, value]) => key.startsWith("can_") && value === true)
+            return admins.set(Number(params.chat_id), promoted ? [...chatAdmins, Number(params.user_id)] : chatAdmins)
+          }).pipe(Effect.as(true))
+        case "getChatAdministrators":
+          return Ref.get(adminsRef).pipe(
+            Effect.map((admins) => (admins.get(Number(params.chat_id)) ?? []).map(makeAdministrator))
+          )
+        case "getChatMember":
+          return Ref.get(adminsRef).pipe(
+            Effect.map((admins) =>
+              admins.get(Number(params.chat_id))?.includes(Number(params.user_id))
+                ? makeAdministrator(Number(params.user_id))
+                : { status: "member", user: { ...DEFAULT_USER, id: Number(params.user_id) } }
+            )
+          )
+        case "deleteWebhook":
+          return params.drop_pending_updates ? Ref.set(updatesRef, []).pipe(Effect.as(true)) : Effect.succeed(true)
+        case "deleteMessage":
+          return Effect.gen(function*() {
+            const message = yield* findMessage(params, "message to delete not found")
+            yield* Ref.update(messagesRef, (messages) => {
+              messages.delete(messageKey(message.chat.id, message.message_id))
+              return messages
+            })
+            return true
+          })
+        case "getFile":
+          return Ref.get(filesRef).pipe(
+            Effect.flatMap((files) => {
+              const entry = files.get(String(params.file_id))
+              return entry
+                ? Effect.succeed(entry.file)
+                : Effect.fail(new MockTelegramError(400, "Bad Request: invalid file_id"))
+            })
+          )
+        default:
+          // answerCallbackQuery, setWebhook and every other method without a result of interest
+          return Effect.succeed(true)
+      }
+    }
+
+    const handleRequest = (request: HttpClientRequest.HttpClientRequest) =>
+      Effect.gen(function*() {
+        const { pathname } = new URL(request.url)
+        const filePath = /^\/file\/bot[^/]+\/(.+)$/.exec(pathname)?.[1]
+        if (filePath !== undefined) {
+          const files = yield* Ref.get(filesRef)
+          const entry = [...files.values()].find(({ file }) => file.file_path === filePath)
+          return HttpClientResponse.fromWeb(
+            request,
+            entry ? new Response(new Uint8Array(entry.content)) : new Response("Not Found", { status: 404 })
+          )
+        }
+        const method = pathname.slice(pathname.lastIndexOf("/") + 1)
+        const params = yield* readParams(request)
+        yield* Ref.update(callsRef, (calls) => [...calls, { method, params }])
+        const failure = yield* Ref.modify(failuresRef, (failures) => {
+          const index = failures.findIndex((failure) => failure.method === method)
+          return index === -1
+            ? [undefined, failures]
+            : [failures[index], failures.filter((_, i) => i !== index)]
+        })
+        return yield* (failure ? Effect.fail(failure.error) : handleMethod(method, params)).pipe(
+          Effect.map((result) => HttpClientResponse.fromWeb(request, Response.json({ ok: true, result }))),
+          Effect.catchAll((error) =>
+            Effect.succeed(HttpClientResponse.fromWeb(
+              request,
+              Response.json(
+                { description: error.description, error_code: error.errorCode, ok: false },
+                { status: error.errorCode }
+              )
+            ))
+          )
+        )
+      })
+
+    const server = MockTelegramServerContext.of({
+      bot,
+      addFile: (content) =>
+        Effect.gen(function*() {
+          const id = yield* nextId
+          const bytes = typeof content === "string" ? new TextEncoder().encode(content) : content
+          const file: File = {
+            file_id: `file-${id}`,
+            file_path: `documents/file_${id}`,
+            file_size: bytes.length,
+            file_unique_id: `file-unique-${id}`
+          }
+          yield* Ref.update(filesRef, (files) => files.set(file.file_id, { content: bytes, file }))
+          return file
+        }),
+      calls: Ref.get(callsRef),
+      clearCalls: Ref.set(callsRef, []),
+      failNextCall: (method, errorCode, description) =>
+        Ref.update(
+          failuresRef,
+          (failures) => [...failures, { error: new MockTelegramError(errorCode, description), method }]
+        ),
+      pushCallbackQuery: (data, message, from) =>
+        Effect.gen(function*() {
+          const id = yield* nextId
+          const callbackQuery: CallbackQuery = {
+            chat_instance: String(message.chat.id),
+            data,
+            // In a private chat the chat id is the id of the user
+            from: from ?? (message.chat.type === "private"
+              ? { first_name: message.chat.first_name ?? "User", id: message.chat.id, is_bot: false }
+              : DEFAULT_USER),
+            id: String(id),
+            message
+          }
+          yield* pushUpdate({ callback_query: callbackQuery })
+          return callbackQuery
+        }),
+      pushEditedMessage: (message, text) =>
+        Effect.gen(function*() {
+          const edited: Message = {
+            ...message,
+            edit_date: Math.floor((yield* Clock.currentTimeMillis) / 1000),
+            text
+          }
+          yield* Ref.update(
+            messagesRef,
+            (messages) => messages.set(messageKey(message.chat.id, message.message_id), edited)
+          )
+          yield* pushUpdate({ edited_message: edited })
+          return edited
+        }),
+      pushMessage: (content, options) =>
+        Effect.gen(function*() {
+          const from = options?.from ?? DEFAULT_USER
+          const chat = options?.chat ?? { first_name: from.first_name, id: from.id, type: "private" }
+          const fields = typeof content === "string" ? { text: content } : content
+          const command = fields.text !== undefined ? /^\/\S+/.exec(fields.text) : null
+          const message = yield* makeMessage(chat, from, {
+            ...command ? { entities: [{ length: command[0].length, offset: 0, type: "bot_command" }] } : {},
+            ...fields
+          })
+          yield* pushUpdate({ message })
+          return message
+        }),
+      pushUpdate,
+      sentMessages: Effect.gen(function*() {
+        const keys = yield* Ref.get(sentMessagesRef)
+        const messages = yield* Ref.get(messagesRef)
+        return keys.flatMap((key) => {
+          const message = messages.get(key)
+          return message ? [message] : []
+        })
+      })
+    })
+
+    const httpClient = HttpClient.make((request) =>
+      handleRequest(request).pipe(
+        Effect.catchAllDefect((cause) =>
+          Effect.fail(new HttpClientError.RequestError({ cause, reason: "Transport", request }))
+        )
+      )
+    )
+
+    return Context.make(MockTelegramServerContext, server).pipe(
+      Context.add(HttpClient.HttpClient, httpClient)
+    )
+  })
+)
+
+// =============================================================================
+// Test Layer
+// =============================================================================
+
+// Without retries and validating every response
+const testTelegramBotApiConfig: TelegramBotApiConfig = {
+  apiBaseUrl: "https://api.telegram.org/bot",
+  idempotencyTtl: 60000,
+  localMode: false,
+  rateLimitDelay: 0,
+  retryAttempts: 0,
+  retryDelay: 0,
+  strictDecoding: true,
+  timeout: 1000,
+  token: Redacted.make("123456:TEST")
+}
+
+/**
+ * Configuration for tests, without retries and validating every response of the mock server
+ */
+export const TestTelegramBotApiConfigLive = Layer.succeed(TelegramBotApiConfigContext, testTelegramBotApiConfig)
+
+// Never throttle, a throttled request would wait forever under the TestClock
+const TestRateLimiterLive = Layer.succeed(RateLimiterContext, {
+  acquire: () => Effect.void,
+  penalize: () => Effect.void,
+  queueDepth: Effect.succeed(0)
+})
+
+/**
+ * Telegram Bot API Service answered by the mock server, providing the mock server to inspect calls
+ */
+export const TestTelegramBotApiLive = TelegramBotApiLive.pipe(
+  Layer.provide(TestRateLimiterLive),
+  Layer.provide(NodeFileSystem.layer),
+  Layer.provideMerge(MockTelegramServerLive),
+  Layer.provideMerge(TestTelegramBotApiConfigLive)
+)
+
+/**
+ * Telegram Bot API Service answered by a stub HTTP client instead of the mock
+ * server, to test how requests are sent and responses are handled. Provides
+ * the stub HTTP client, the configuration, the filesystem and the rate
+ * limiter, which never throttles unless penalized, to services built on it.
+ * @param respond Answers each request, e.g. with the next of a list of responses
+ * @param config Replaces settings of the test configuration
+ */
+export const makeStubTelegramBotApiLive = (
+  respond: (
+    request: HttpClientRequest.HttpClientRequest
+  ) => Effect.Effect<Response, HttpClientError.HttpClientError>,
+  config: Partial<TelegramBotApiConfig> = {}
+) =>
+  TelegramBotApiLive.pipe(
+    Layer.provideMerge(Layer.succeed(
+      HttpClient.HttpClient,
+      HttpClient.make((request) =>
+        Effect.map(respond(request), (response) => HttpClientResponse.fromWeb(request, response))
+      )
+    )),
+    Layer.provideMerge(RateLimiterLive),
+    Layer.provide(Layer.succeed(RateLimiterConfigContext, {
+      globalPerSecond: 1000,
+      groupChatPerMinute: 1000,
+      privateChatPerSecond: 1000
+    })),
+    Layer.provideMerge(Layer.succeed(TelegramBotApiConfigContext, { ...testTelegramBotApiConfig, ...config })),
+    Layer.provideMerge(NodeFileSystem.layer)
+  )
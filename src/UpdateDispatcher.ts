@@ -0,0 +1,178 @@
+import { Config, Context, Effect, Exit, FiberSet, Layer, Ref, Stream, SubscriptionRef } from "effect"
+import { makeUpdateContext } from "./Middleware.js"
+import type { Update } from "./TelegramBotApi.js"
+import { UpdateHandlerContext } from "./UpdateHandler.js"
+
+// =============================================================================
+// Configuration Layer
+// =============================================================================
+
+/**
+ * Configuration for concurrent update processing
+ */
+export interface UpdateDispatcherConfig {
+  /** Maximum number of updates processed at the same time */
+  readonly maxConcurrency: number
+  /** Maximum number of updates queued or being processed before dispatching waits */
+  readonly queueCapacity: number
+}
+
+export class UpdateDispatcherConfigContext extends Context.Tag(
+  "@context/UpdateDispatcherConfig"
+)<UpdateDispatcherConfigContext, UpdateDispatcherConfig>() {}
+
+/**
+ * Configuration layer that loads settings from environment variables
+ */
+export const UpdateDispatcherConfigLive = Layer.effect(
+  UpdateDispatcherConfigContext,
+  Effect.gen(function*() {
+    const maxConcurrency = yield* Config.withDefault(
+      Config.number("TELEGRAM_MAX_CONCURRENCY").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      10
+    )
+    const queueCapacity = yield* Config.withDefault(
+      Config.number("TELEGRAM_UPDATE_QUEUE_CAPACITY").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      100
+    )
+
+    return UpdateDispatcherConfigContext.of({ maxConcurrency, queueCapacity })
+  })
+)
+
+// =============================================================================
+// Update Dispatcher
+// =============================================================================
+
+/**
+ * Service processing updates concurrently across chats, while updates of the
+ * same chat (or of the same user outside of chats) are processed one after
+ * the other in the order they were dispatched
+ */
+export interface UpdateDispatcher {
+  /**
+   * Wait until every dispatched update was processed
+   */
+  readonly awaitIdle: Effect.Effect<void>
+  /**
+   * Queue an update for processing, waiting while the queue is full
+   * @param update The update to process
+   */
+  dispatch(update: Update): Effect.Effect<void>
+  /**
+   * Interrupt the updates being processed and drop the queued ones, they stay
+   * pending so processed never moves past them
+   */
+  readonly interrupt: Effect.Effect<void>
+  /**
+   * The update_id up to which every dispatched update was processed, or 0
+   */
+  readonly processed: Effect.Effect<number>
+  /**
+   * The current value of processed followed by every change of it
+   */
+  readonly processedChanges: Stream.Stream<number>
+}
+
+export class UpdateDispatcherContext extends Context.Tag(
+  "@context/UpdateDispatcher"
+)<UpdateDispatcherContext, UpdateDispatcher>() {}
+
+interface DispatcherState {
+  /** The highest update_id dispatched so far */
+  readonly highest: number
+  /** The update_ids dispatched but not processed yet */
+  readonly pending: ReadonlySet<number>
+}
+
+const getProcessed = (state: DispatcherState) =>
+  state.pending.size === 0 ? state.highest : Math.min(...state.pending) - 1
+
+// Updates without a chat or user are independent of each other
+const getUpdateKey = (update: Update) => {
+  const { chat, user } = makeUpdateContext(update)
+  return chat ? `chat:${chat.id}` : user ? `user:${user.id}` : `update:${update.update_id}`
+}
+
+export const UpdateDispatcherLive = Layer.scoped(
+  UpdateDispatcherContext,
+  Effect.gen(function*() {
+    const updateDispatcherConfig = yield* UpdateDispatcherConfigContext
+    const updateHandler = yield* UpdateHandlerContext
+    // Workers run in the scope of the layer, so they outlive the fiber dispatching the update
+    const workers = yield* FiberSet.make()
+    const capacity = yield* Effect.makeSemaphore(updateDispatcherConfig.queueCapacity)
+    const concurrency = yield* Effect.makeSemaphore(updateDispatcherConfig.maxConcurrency)
+    // The updates waiting per key, the first one is being processed by the key's worker
+    const queuesRef = yield* Ref.make(new Map<string, Array<Update>>())
+    const stateRef = yield* SubscriptionRef.make<DispatcherState>({ highest: 0, pending: new Set() })
+
+    const complete = (update: Update) =>
+      SubscriptionRef.update(stateRef, (state) => {
+        const pending = new Set(state.pending)
+        pending.delete(update.update_id)
+        return { ...state, pending }
+      }).pipe(Effect.zipRight(capacity.release(1)))
+
+    // Failures are logged and the update counts as processed, like the webhook server does,
+    // while an interrupted update does not
+    const process = (update: Update) =>
+      updateHandler.handle(update).pipe(
+        Effect.catchAllCause((cause) => Effect.logError("Failed to process update", cause)),
+        concurrency.withPermits(1),
+        Effect.onExit((exit) => Exit.isInterrupted(exit) ? Effect.void : complete(update))
+      )
+
+    // Process the updates of a key in order until its queue is empty
+    const runWorker = (key: string, first: Update) =>
+      Effect.gen(function*() {
+        let update: Update | undefined = first
+        while (update) {
+          yield* process(update)
+          update = yield* Ref.modify(queuesRef, (queues) => {
+            const queue = queues.get(key) ?? []
+            queue.shift()
+            if (queue.length === 0) {
+              queues.delete(key)
+              return [undefined, queues]
+            }
+            return [queue[0], queues]
+          })
+        }
+      })
+
+    return UpdateDispatcherContext.of({
+      awaitIdle: stateRef.changes.pipe(
+        Stream.takeUntil((state) => state.pending.size === 0),
+        Stream.runDrain
+      ),
+      dispatch: (update) =>
+        Effect.gen(function*() {
+          yield* capacity.take(1)
+          yield* SubscriptionRef.update(stateRef, (state) => ({
+            highest: Math.max(state.highest, update.update_id),
+            pending: new Set(state.pending).add(update.update_id)
+          }))
+          const key = getUpdateKey(update)
+          const isIdle = yield* Ref.modify(queuesRef, (queues) => {
+            const queue = queues.get(key)
+            if (queue) {
+              queue.push(update)
+              return [false, queues]
+            }
+            return [true, queues.set(key, [update])]
+          })
+          if (isIdle) {
+            yield* FiberSet.run(workers, runWorker(key, update))
+          }
+        }),
+      interrupt: FiberSet.clear(workers).pipe(Effect.zipRight(Ref.set(queuesRef, new Map()))),
+      processed: Effect.map(SubscriptionRef.get(stateRef), getProcessed),
+      processedChanges: stateRef.changes.pipe(Stream.map(getProcessed), Stream.changes)
+    })
+  })
+)
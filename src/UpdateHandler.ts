@@ -0,0 +1,27 @@
+import { Context, type Effect } from "effect"
+import type { TelegramBotApiRequestError, Update, UpdateType } from "./TelegramBotApi.js"
+
+// =============================================================================
+// Update Handler
+// =============================================================================
+
+/**
+ * The dispatch pipeline for incoming updates, shared by every update source
+ * (the getUpdates poller and the webhook server)
+ */
+export interface UpdateHandler {
+  /**
+   * The update types the pipeline is interested in, passed as allowed_updates
+   * to getUpdates and setWebhook
+   */
+  readonly allowedUpdates: Effect.Effect<Array<UpdateType>>
+  /**
+   * Process a single incoming update
+   * @param update The update received from Telegram
+   */
+  handle(update: Update): Effect.Effect<void, TelegramBotApiRequestError>
+}
+
+export class UpdateHandlerContext extends Context.Tag(
+  "@context/UpdateHandler"
+)<UpdateHandlerContext, UpdateHandler>() {}
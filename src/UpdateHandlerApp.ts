@@ -0,0 +1,128 @@
+import { Effect, Layer, Option } from "effect"
+
+import {
+  CommandManagerConfigLive,
+  CommandManagerContext,
+  CommandManagerLive,
+  parseBotCommand
+} from "./CommandManager.js"
+import {
+  formCommand,
+  formListCommand,
+  helpCommand,
+  historybackCommand,
+  historypushCommand,
+  photo1Command,
+  photo2Command,
+  photo3Command,
+  photoCommand,
+  startCommand
+} from "./CommandManagerApp.js"
+import { createForm, createFormStep, FormCacheLive, FormManagerContext, FormManagerLive } from "./Form.js"
+import { GuardConfigLive, GuardManagerLive } from "./Guard.js"
+import { HistoryCacheLive } from "./HistoryCache.js"
+import { MessageCacheLive } from "./MessageCache.js"
+import { MiddlewareManagerContext, MiddlewareManagerLive } from "./Middleware.js"
+import { loggingMiddleware, makeErrorReplyMiddleware } from "./MiddlewareApp.js"
+import { TelegramBotApiContext } from "./TelegramBotApi.js"
+import { UpdateHandlerContext } from "./UpdateHandler.js"
+import { UpdateRouterContext, UpdateRouterLive } from "./UpdateRouter.js"
+
+// Dispatch pipeline shared by the getUpdates poller and the webhook server
+const UpdateHandlerLive = Layer.effect(
+  UpdateHandlerContext,
+  Effect.gen(function*() {
+    const middlewareManager = yield* MiddlewareManagerContext
+    const updateRouter = yield* UpdateRouterContext
+
+    return UpdateHandlerContext.of({
+      allowedUpdates: updateRouter.allowedUpdates,
+      handle: (update) => middlewareManager.run(update, () => updateRouter.route(update))
+    })
+  })
+)
+
+// Register the commands and forms the bot understands
+const registerHandlers = Effect.gen(function*() {
+  const commandManager = yield* CommandManagerContext
+  const formManager = yield* FormManagerContext
+  const middlewareManager = yield* MiddlewareManagerContext
+  const telegramBotApi = yield* TelegramBotApiContext
+  const updateRouter = yield* UpdateRouterContext
+
+  // Register middleware, the first registered wraps all others
+  yield* middlewareManager.use(loggingMiddleware)
+  yield* middlewareManager.use(makeErrorReplyMiddleware(telegramBotApi))
+
+  // Route text messages to commands and forms
+  yield* updateRouter.on("message", (message) =>
+    Effect.gen(function*() {
+      if (!message.from || !message.text) {
+        return
+      }
+      yield* Effect.logInfo(`Received message from user ${message.from.id}: ${message.text}`)
+      // Check if the message is a command
+      if (Option.isSome(parseBotCommand(message))) {
+        return yield* commandManager.handle(message)
+      }
+      const text = "hi"
+      // Check if user is filling out a form
+      yield* formManager.processInput(message.chat.id, message.text, telegramBotApi).pipe(
+        Effect.catchTag("FormManagerNoActiveFormError", () =>
+          telegramBotApi.sendMessage({
+            chat_id: message.chat.id,
+            reply_parameters: { message_id: message.message_id },
+            text
+          }))
+      )
+      yield* Effect.logInfo(`Replied to user ${message.from.id} with "${text}"`)
+    }))
+
+  // Register built-in commands
+  yield* commandManager.register(helpCommand)
+  yield* commandManager.register(photoCommand)
+  yield* commandManager.register(photo1Command)
+  yield* commandManager.register(photo2Command)
+  yield* commandManager.register(photo3Command)
+  yield* commandManager.register(startCommand)
+  yield* commandManager.register(historypushCommand)
+  yield* commandManager.register(historybackCommand)
+  yield* commandManager.register(formCommand)
+  yield* commandManager.register(formListCommand)
+
+  // Example form registration
+  const registrationForm = createForm(
+    "registration",
+    [
+      createFormStep("What is your name?", "name"),
+      createFormStep("What is your email address?", "email"),
+      createFormStep("What is your age?", "age")
+    ],
+    (chatId, results, telegramBotApi) =>
+      Effect.gen(function*() {
+        const text = `Registration complete!\n\nName: ${results.name}\nEmail: ${results.email}\nAge: ${results.age}`
+        // Send the completion message to the user
+        yield* telegramBotApi.sendMessage({ chat_id: chatId, text })
+      })
+  )
+
+  yield* formManager.registerForm(registrationForm)
+})
+
+/**
+ * The bot's dispatch pipeline with every command, form and middleware registered,
+ * independent of where updates come from and of the Telegram Bot API implementation
+ */
+export const UpdateHandlerAppLive = Layer.effectDiscard(registerHandlers).pipe(
+  Layer.provideMerge(UpdateHandlerLive),
+  Layer.provideMerge(UpdateRouterLive),
+  Layer.provideMerge(MiddlewareManagerLive),
+  Layer.provideMerge(CommandManagerLive),
+  Layer.provideMerge(CommandManagerConfigLive),
+  Layer.provideMerge(FormManagerLive),
+  Layer.provideMerge(GuardManagerLive),
+  Layer.provideMerge(GuardConfigLive),
+  Layer.provideMerge(FormCacheLive),
+  Layer.provideMerge(HistoryCacheLive),
+  Layer.provideMerge(MessageCacheLive)
+)
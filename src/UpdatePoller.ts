@@ -0,0 +1,246 @@
+import { Config, Context, Duration, Effect, Fiber, Layer, Option, Ref, Schedule, Stream } from "effect"
+import { OffsetStoreContext, type OffsetStoreError } from "./OffsetStore.js"
+import {
+  isUpdateType,
+  TelegramBotApiContext,
+  type TelegramBotApiRequestError,
+  type UpdateType
+} from "./TelegramBotApi.js"
+import { UpdateDispatcherContext } from "./UpdateDispatcher.js"
+import { UpdateHandlerContext } from "./UpdateHandler.js"
+
+// =============================================================================
+// Configuration Layer
+// =============================================================================
+
+/**
+ * Configuration for polling updates with getUpdates
+ */
+export interface PollingConfig {
+  /** The update types to receive, instead of the types with a registered handler */
+  readonly allowedUpdates: Option.Option<Array<UpdateType>>
+  /** Drop the updates that arrived while the bot was not running, when it starts */
+  readonly dropPendingUpdates: boolean
+  /** Maximum number of updates fetched by a single getUpdates call, 1-100 */
+  readonly limit: number
+  /** Exit, or wait until it goes away, when another instance polls with the same token or a webhook is set */
+  readonly onConflict: "exit" | "wait"
+  /** Delay before retrying a failed getUpdates call in ms, doubled after each further failure */
+  readonly retryDelay: number
+  /** Maximum delay between retries of getUpdates in ms */
+  readonly retryMaxDelay: number
+  /** How long in-flight updates may run on shutdown before they are interrupted, in ms */
+  readonly shutdownTimeout: number
+  /** Long polling timeout in seconds, how long getUpdates waits for an update to arrive */
+  readonly timeout: number
+}
+
+export class PollingConfigContext extends Context.Tag(
+  "@context/PollingConfig"
+)<PollingConfigContext, PollingConfig>() {}
+
+/**
+ * Configuration layer that loads settings from environment variables
+ */
+export const PollingConfigLive = Layer.effect(
+  PollingConfigContext,
+  Effect.gen(function*() {
+    const allowedUpdates = yield* Config.option(
+      Config.array(
+        Config.string().pipe(
+          Config.validate({ message: "Must be an update type", validation: isUpdateType })
+        ),
+        "TELEGRAM_POLLING_ALLOWED_UPDATES"
+      )
+    )
+    const dropPendingUpdates = yield* Config.withDefault(
+      Config.boolean("TELEGRAM_POLLING_DROP_PENDING_UPDATES"),
+      false
+    )
+    const limit = yield* Config.withDefault(
+      Config.integer("TELEGRAM_POLLING_LIMIT").pipe(
+        Config.validate({ message: "Must be between 1 and 100", validation: (a) => 1 <= a && a <= 100 })
+      ),
+      100
+    )
+    const onConflict = yield* Config.withDefault(
+      Config.literal("exit", "wait")("TELEGRAM_POLLING_ON_CONFLICT"),
+      "exit"
+    )
+    const retryDelay = yield* Config.withDefault(
+      Config.number("TELEGRAM_POLLING_RETRY_DELAY").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      1000
+    )
+    const retryMaxDelay = yield* Config.withDefault(
+      Config.number("TELEGRAM_POLLING_RETRY_MAX_DELAY").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      60000
+    )
+    const shutdownTimeout = yield* Config.withDefault(
+      Config.number("TELEGRAM_SHUTDOWN_TIMEOUT").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      10000
+    )
+    const timeout = yield* Config.withDefault(
+      Config.integer("TELEGRAM_POLLING_TIMEOUT").pipe(
+        Config.validate({ message: "Must be positive", validation: (a) => 0 < a })
+      ),
+      30
+    )
+
+    return PollingConfigContext.of({
+      allowedUpdates,
+      dropPendingUpdates,
+      limit,
+      onConflict,
+      retryDelay,
+      retryMaxDelay,
+      shutdownTimeout,
+      timeout
+    })
+  })
+)
+
+// =============================================================================
+// Update Poller
+// =============================================================================
+
+/**
+ * Long polling loop feeding the dispatch pipeline
+ */
+export interface UpdatePoller {
+  /**
+   * Poll for updates and dispatch them until interrupted. Failed getUpdates
+   * calls are retried with back-off, unless the token was rejected or on a
+   * conflict configured to exit. On interruption no more updates are
+   * fetched, and the updates being processed are given the shutdown timeout
+   * to finish.
+   */
+  readonly run: Effect.Effect<void, OffsetStoreError | TelegramBotApiRequestError>
+}
+
+export class UpdatePollerContext extends Context.Tag(
+  "@context/UpdatePoller"
+)<UpdatePollerContext, UpdatePoller>() {}
+
+export const UpdatePollerLive = Layer.effect(
+  UpdatePollerContext,
+  Effect.gen(function*() {
+    const offsetStore = yield* OffsetStoreContext
+    const pollingConfig = yield* PollingConfigContext
+    const telegramBotApi = yield* TelegramBotApiContext
+    const updateDispatcher = yield* UpdateDispatcherContext
+    const updateHandler = yield* UpdateHandlerContext
+
+    // Exponential back-off, capped at the maximum delay
+    const retrySchedule = Schedule.exponential(Duration.millis(pollingConfig.retryDelay)).pipe(
+      Schedule.union(Schedule.spaced(Duration.millis(pollingConfig.retryMaxDelay)))
+    )
+
+    const logFailure = (error: TelegramBotApiRequestError) => {
+      if (error._tag !== "TelegramBotApiConflictError") {
+        return Effect.logWarning(`Failed to get updates: ${error.message}`)
+      }
+      const conflict = "Another instance is polling for updates with this bot token, or a webhook is set"
+      return pollingConfig.onConflict === "exit"
+        ? Effect.logError(`${conflict}. Stop the other instance or delete the webhook. Exiting.`)
+        : Effect.logWarning(`${conflict}. Waiting for it to go away.`)
+    }
+
+    const isRetryable = (error: TelegramBotApiRequestError) =>
+      error._tag === "TelegramBotApiConflictError"
+        ? pollingConfig.onConflict === "wait"
+        // A rejected token does not fix itself
+        : error._tag !== "TelegramBotApiUnauthorizedError"
+
+    // Get updates from the bot API, only of the configured types or of the types with a registered handler
+    const getUpdates = (offset: number) =>
+      Effect.gen(function*() {
+        const allowedUpdates = Option.isSome(pollingConfig.allowedUpdates)
+          ? pollingConfig.allowedUpdates.value
+          : yield* updateHandler.allowedUpdates
+        return yield* telegramBotApi.getUpdates({
+          allowed_updates: allowedUpdates,
+          limit: pollingConfig.limit,
+          offset: offset + 1, // Start from the next update after the last one
+          timeout: pollingConfig.timeout
+        })
+      }).pipe(
+        Effect.tapError(logFailure),
+        Effect.retry({ schedule: retrySchedule, while: isRetryable })
+      )
+
+    // Confirm the updates processed so far, so a restart resumes right after them
+    const confirmProcessed = (confirmedRef: Ref.Ref<number>) =>
+      Effect.gen(function*() {
+        const processed = yield* updateDispatcher.processed
+        if (processed > (yield* Ref.get(confirmedRef))) {
+          yield* offsetStore.set(processed)
+          yield* Ref.set(confirmedRef, processed)
+        }
+      })
+
+    // Stop fetching, and give the updates being processed the shutdown timeout to finish
+    const drain = (confirmedRef: Ref.Ref<number>) =>
+      Effect.logInfo(`Shutting down, waiting up to ${pollingConfig.shutdownTimeout} ms for in-flight updates`).pipe(
+        // Run as a finalizer, so the wait must be made interruptible for the timeout to end it
+        Effect.zipRight(
+          Effect.interruptible(updateDispatcher.awaitIdle).pipe(
+            Effect.timeout(Duration.millis(pollingConfig.shutdownTimeout))
+          )
+        ),
+        Effect.catchTag(
+          "TimeoutException",
+          () =>
+            Effect.logWarning("In-flight updates did not finish in time, interrupting them").pipe(
+              Effect.zipRight(updateDispatcher.interrupt)
+            )
+        ),
+        Effect.zipRight(confirmProcessed(confirmedRef)),
+        Effect.catchAll((error) => Effect.logError("Failed to confirm processed updates", error))
+      )
+
+    return UpdatePollerContext.of({
+      run: Effect.gen(function*() {
+        if (pollingConfig.dropPendingUpdates) {
+          yield* telegramBotApi.deleteWebhook({ drop_pending_updates: true })
+          yield* Effect.logInfo("Dropped pending updates")
+        }
+
+        let offset = yield* offsetStore.get // To track the latest update ID fetched
+        const confirmedRef = yield* Ref.make(offset) // The latest update ID processed and stored
+
+        // Confirm updates as soon as they are processed, rather than once per getUpdates call
+        const confirmer = yield* updateDispatcher.processedChanges.pipe(
+          Stream.runForEach(() => confirmProcessed(confirmedRef)),
+          Effect.fork
+        )
+
+        // Infinite loop to continuously poll for updates, each call waits for updates to arrive
+        return yield* Effect.forever(
+          Effect.gen(function*() {
+            const updates = yield* getUpdates(offset)
+            // Dispatching waits while the dispatcher's queue is full, holding back the next getUpdates
+            for (const update of updates) {
+              yield* updateDispatcher.dispatch(update)
+              // Update offset to the latest fetched update ID
+              if (update.update_id >= offset) {
+                offset = update.update_id
+              }
+            }
+          })
+        ).pipe(
+          // A failing confirmation stops polling, so updates are never fetched far past the stored offset
+          Effect.raceFirst(Fiber.join(confirmer)),
+          Effect.onInterrupt(() => Fiber.interrupt(confirmer).pipe(Effect.zipRight(drain(confirmedRef)))),
+          Effect.ensuring(Fiber.interrupt(confirmer)),
+          Effect.asVoid
+        )
+      })
+    })
+  })
+)
@@ -0,0 +1,88 @@
+import { Context, Effect, Layer, Ref } from "effect"
+import type { TelegramBotApiRequestError, Update, UpdateType } from "./TelegramBotApi.js"
+
+// =============================================================================
+// Update Router
+// =============================================================================
+
+/**
+ * Handler for one kind of update
+ * @param payload The non-empty update field the handler was registered for
+ * @param update The whole update, e.g. to read the update_id
+ */
+export type UpdateRouteHandler<K extends UpdateType> = (
+  payload: NonNullable<Update[K]>,
+  update: Update
+) => Effect.Effect<void, TelegramBotApiRequestError>
+
+/**
+ * Service routing every update to the handlers registered for its type
+ */
+export interface UpdateRouter {
+  /**
+   * The update types with at least one registered handler, in registration order
+   */
+  readonly allowedUpdates: Effect.Effect<Array<UpdateType>>
+  /**
+   * Register a handler for an update type. Handlers for the same type run in
+   * registration order.
+   * @param type The optional field of Update to handle
+   * @param handler The handler receiving the field's value
+   */
+  on<K extends UpdateType>(type: K, handler: UpdateRouteHandler<K>): Effect.Effect<void>
+  /**
+   * Run the handlers registered for the type of the given update
+   * @param update The update to route
+   */
+  route(update: Update): Effect.Effect<void, TelegramBotApiRequestError>
+}
+
+// A registered handler of any update type, which reads the payload of its type from the update itself
+type AnyUpdateRouteHandler = (update: Update) => Effect.Effect<void, TelegramBotApiRequestError>
+
+export class UpdateRouterContext extends Context.Tag(
+  "@context/UpdateRouter"
+)<UpdateRouterContext, UpdateRouter>() {}
+
+export const UpdateRouterLive = Layer.effect(
+  UpdateRouterContext,
+  Effect.gen(function*() {
+    const handlersRef = yield* Ref.make(new Map<UpdateType, Array<AnyUpdateRouteHandler>>())
+
+    return UpdateRouterContext.of({
+      allowedUpdates: Ref.get(handlersRef).pipe(
+        Effect.map((handlers) => Array.from(handlers.keys()))
+      ),
+      on: (type, handler) =>
+        Ref.update(handlersRef, (handlers) => {
+          // The registry does not know the payload type of the handler, only the handler itself does
+          const registered: AnyUpdateRouteHandler = (update) => {
+            const payload = update[type]
+            return payload === undefined ? Effect.void : handler(payload, update)
+          }
+          const typeHandlers = handlers.get(type)
+          if (typeHandlers) {
+            typeHandlers.push(registered)
+          } else {
+            handlers.set(type, [registered])
+          }
+
+          return handlers
+        }),
+      route: (update) =>
+        Effect.gen(function*() {
+          const handlers = yield* Ref.get(handlersRef)
+          // At most one of the optional fields is present in any given update
+          for (const [type, typeHandlers] of handlers) {
+            if (update[type] !== undefined) {
+              for (const handler of typeHandlers) {
+                yield* handler(update)
+              }
+              return
+            }
+          }
+          yield* Effect.logDebug(`No handler registered for update ${update.update_id}`)
+        })
+    })
+  })
+)
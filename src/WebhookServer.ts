@@ -0,0 +1,155 @@
+import { HttpRouter, HttpServer, HttpServerRequest, HttpServerResponse } from "@effect/platform"
+import { NodeHttpServer } from "@effect/platform-node"
+import { Config, Context, Effect, Layer, Option, Redacted } from "effect"
+import { randomUUID, timingSafeEqual } from "node:crypto"
+import { createServer } from "node:http"
+import { TelegramBotApiContext, type Update } from "./TelegramBotApi.js"
+import { UpdateHandlerContext } from "./UpdateHandler.js"
+
+// =============================================================================
+// Configuration Layer
+// =============================================================================
+
+/**
+ * Configuration for the webhook ingestion server
+ */
+export interface WebhookServerConfig {
+  /** The path the server accepts POSTed updates on */
+  readonly path: `/${string}`
+  /** The port the HTTP server listens on */
+  readonly port: number
+  /** The secret Telegram sends back in the X-Telegram-Bot-Api-Secret-Token header */
+  readonly secretToken: Redacted.Redacted
+  /** The public HTTPS URL registered with setWebhook */
+  readonly url: string
+}
+
+export class WebhookServerConfigContext extends Context.Tag(
+  "@context/WebhookServerConfig"
+)<WebhookServerConfigContext, WebhookServerConfig>() {}
+
+/**
+ * Configuration layer that loads settings from environment variables
+ */
+export const WebhookServerConfigLive = Layer.effect(
+  WebhookServerConfigContext,
+  Effect.gen(function*() {
+    const url = yield* Config.string("TELEGRAM_WEBHOOK_URL").pipe(
+      Config.validate({
+        message: "Must be HTTPS URL",
+        validation: (a) => {
+          try {
+            return new URL(a).protocol === "https:"
+          } catch {
+            return false
+          }
+        }
+      })
+    )
+    const path = yield* Config.option(
+      Config.string("TELEGRAM_WEBHOOK_PATH").pipe(
+        Config.validate({ message: "Must start with /", validation: (a) => a.startsWith("/") })
+      )
+    )
+    const port = yield* Config.withDefault(
+      Config.port("TELEGRAM_WEBHOOK_PORT"),
+      8443
+    )
+    const secretToken = yield* Config.option(
+      Config.redacted("TELEGRAM_WEBHOOK_SECRET_TOKEN").pipe(
+        Config.validate({
+          message: "Must be 1-256 characters of A-Z, a-z, 0-9, _ and -",
+          validation: (a) => /^[A-Za-z0-9_-]{1,256}$/.test(Redacted.value(a))
+        })
+      )
+    )
+
+    return WebhookServerConfigContext.of({
+      // Default to the path of the public URL, which is what a reverse proxy usually forwards
+      path: Option.getOrElse(path, () => new URL(url).pathname) as `/${string}`,
+      port,
+      // Without a configured secret, generate one per process so the header is always checked
+      secretToken: Option.getOrElse(secretToken, () => Redacted.make(randomUUID())),
+      url
+    })
+  })
+)
+
+// =============================================================================
+// Webhook Server
+// =============================================================================
+
+const SECRET_TOKEN_HEADER = "x-telegram-bot-api-secret-token"
+
+/**
+ * Compares the received secret token with the expected one in constant time
+ * @param received The header value sent with the request, if any
+ * @param expected The configured secret token
+ * @returns Boolean indicating if the tokens match
+ */
+const isValidSecretToken = (received: string | undefined, expected: Redacted.Redacted): boolean => {
+  if (received === undefined) {
+    return false
+  }
+  const a = Buffer.from(received)
+  const b = Buffer.from(Redacted.value(expected))
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * Webhook server that accepts POSTed updates, registers the webhook with
+ * Telegram on startup and removes it again on shutdown
+ */
+export const WebhookServerLive = Layer.scopedDiscard(
+  Effect.gen(function*() {
+    const telegramBotApi = yield* TelegramBotApiContext
+    const updateHandler = yield* UpdateHandlerContext
+    const webhookServerConfig = yield* WebhookServerConfigContext
+
+    const router = HttpRouter.empty.pipe(
+      HttpRouter.post(
+        webhookServerConfig.path,
+        Effect.gen(function*() {
+          const request = yield* HttpServerRequest.HttpServerRequest
+          if (!isValidSecretToken(request.headers[SECRET_TOKEN_HEADER], webhookServerConfig.secretToken)) {
+            yield* Effect.logWarning("Rejected webhook request with invalid secret token")
+            return HttpServerResponse.empty({ status: 401 })
+          }
+          const update = (yield* request.json) as Update
+          // Failures are logged and acknowledged, otherwise Telegram keeps redelivering the same update
+          yield* updateHandler.handle(update).pipe(
+            Effect.catchAllCause((cause) => Effect.logError("Failed to process webhook update", cause))
+          )
+          return HttpServerResponse.empty({ status: 200 })
+        }).pipe(
+          Effect.catchTag("RequestError", () => Effect.succeed(HttpServerResponse.empty({ status: 400 })))
+        )
+      )
+    )
+
+    yield* HttpServer.serveEffect(router)
+    const allowedUpdates = yield* updateHandler.allowedUpdates
+    yield* Effect.acquireRelease(
+      telegramBotApi.setWebhook({
+        allowed_updates: allowedUpdates,
+        secret_token: Redacted.value(webhookServerConfig.secretToken),
+        url: webhookServerConfig.url
+      }),
+      () =>
+        telegramBotApi.deleteWebhook().pipe(
+          Effect.catchAll((error) => Effect.logError("Failed to delete webhook", error))
+        )
+    )
+    yield* Effect.logInfo(`Webhook registered at ${webhookServerConfig.url}`)
+  })
+)
+
+/**
+ * Webhook server running on the Node HTTP server, listening on the configured port
+ */
+export const WebhookServerNodeLive = Layer.unwrapEffect(
+  Effect.map(WebhookServerConfigContext, (webhookServerConfig) =>
+    WebhookServerLive.pipe(
+      Layer.provide(NodeHttpServer.layer(createServer, { port: webhookServerConfig.port }))
+    ))
+)
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Config, ConfigProvider, Effect, Option, Redacted } from "effect"
+import { BotInstancesConfig, runBotInstance, runBotInstances } from "../src/BotInstance.js"
+import { TelegramBotApiConfigContext, TelegramBotApiConfigLive } from "../src/TelegramBotApi.js"
+import { UpdateRouterContext, UpdateRouterLive } from "../src/UpdateRouter.js"
+
+// Mirrors the environment, where nested settings are joined with _
+const withEnv = (env: Record<string, string>) =>
+  Effect.withConfigProvider(ConfigProvider.fromMap(new Map(Object.entries(env)), { pathDelim: "_" }))
+
+describe("BotInstance", () => {
+  it.effect("should read the bots from name:token pairs", () =>
+    Effect.gen(function*() {
+      const bots = yield* BotInstancesConfig.pipe(withEnv({ TELEGRAM_BOTS: "shop:123:ABC,news:456:DEF" }))
+      expect(bots.map((bot) => bot.name)).toEqual(["shop", "news"])
+      expect(bots.map((bot) => Redacted.value(bot.token))).toEqual(["123:ABC", "456:DEF"])
+
+      const error = yield* Effect.flip(BotInstancesConfig.pipe(withEnv({ TELEGRAM_BOTS: "shop:123:ABC,shop:456:DEF" })))
+      expect(error._op).toBe("InvalidData")
+    }))
+
+  it.effect("should run each bot with its own token, settings and services", () =>
+    Effect.gen(function*() {
+      const bots = yield* BotInstancesConfig
+      const seen: Array<[string, number, number]> = []
+
+      // Each bot registers a handler, which must not show up in the router of the other bot
+      const app = Effect.gen(function*() {
+        const config = yield* TelegramBotApiConfigContext
+        const updateRouter = yield* UpdateRouterContext
+        yield* updateRouter.on("message", () => Effect.void)
+        seen.push([Redacted.value(config.token), config.retryAttempts, (yield* updateRouter.allowedUpdates).length])
+      }).pipe(Effect.provide(UpdateRouterLive), Effect.provide(TelegramBotApiConfigLive))
+
+      yield* runBotInstances(bots, app)
+
+      expect(seen).toEqual([["123:ABC", 5, 1], ["456:DEF", 3, 1]])
+    }).pipe(withEnv({ TELEGRAM_BOTS: "shop:123:ABC,news:456:DEF", SHOP_TELEGRAM_RETRY_ATTEMPTS: "5" })))
+
+  it.effect("should reject an offset file shared by every bot", () =>
+    Effect.gen(function*() {
+      const bots = yield* BotInstancesConfig
+      const app = Config.option(Config.string("TELEGRAM_OFFSET_FILE"))
+
+      const error = yield* Effect.flip(runBotInstances(bots, app))
+      expect(String(error)).toContain("Must be set per bot, e.g. SHOP_TELEGRAM_OFFSET_FILE")
+
+      const offsetFiles = yield* Effect.forEach(bots, (bot) => runBotInstance(bot, app)).pipe(
+        withEnv({ NEWS_TELEGRAM_OFFSET_FILE: "news.json", SHOP_TELEGRAM_OFFSET_FILE: "shop.json" })
+      )
+      expect(offsetFiles).toEqual([Option.some("shop.json"), Option.some("news.json")])
+    }).pipe(withEnv({ TELEGRAM_BOTS: "shop:123:ABC,news:456:DEF", TELEGRAM_OFFSET_FILE: "offset.json" })))
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+import { BotTesterAppLive, BotTesterContext } from "../src/BotTester.js"
+import { TelegramBotApiContext } from "../src/TelegramBotApi.js"
+import { UpdateRouterContext } from "../src/UpdateRouter.js"
+
+const texts = (messages: Array<{ readonly text?: string }>) => messages.map((message) => message.text)
+
+describe("BotTester", () => {
+  it.effect("should walk a user through the registration form", () =>
+    Effect.gen(function*() {
+      const tester = yield* BotTesterContext
+      const ada = tester.user({ user: { first_name: "Ada" } })
+
+      yield* ada.command("form", "registration")
+      expect(texts(yield* tester.takeReplies)).toEqual(["What is your name?"])
+
+      yield* ada.sends("Ada")
+      yield* ada.sends("ada@example.com")
+      yield* ada.sends("36")
+      expect(texts(yield* tester.takeReplies)).toEqual([
+        "What is your email address?",
+        "What is your age?",
+        "Registration complete!\n\nName: Ada\nEmail: ada@example.com\nAge: 36"
+      ])
+    }).pipe(Effect.provide(BotTesterAppLive)))
+
+  it.effect("should reply to plain messages and unknown commands", () =>
+    Effect.gen(function*() {
+      const tester = yield* BotTesterContext
+      const user = tester.user()
+
+      const message = yield* user.sends("hello")
+      yield* user.command("unknown")
+
+      const replies = yield* tester.replies
+      expect(texts(replies)).toEqual(["hi", "Unknown command: /unknown. Use /help to see available commands."])
+      expect(replies[0].chat.id).toBe(message.chat.id)
+    }).pipe(Effect.provide(BotTesterAppLive)))
+
+  it.effect("should run scheduled messages in virtual time", () =>
+    Effect.gen(function*() {
+      const telegramBotApi = yield* TelegramBotApiContext
+      const tester = yield* BotTesterContext
+      const updateRouter = yield* UpdateRouterContext
+      const user = tester.user()
+
+      yield* updateRouter.on("message", (message) =>
+        message.text === "/remind"
+          ? telegramBotApi.sendMessage({ chat_id: message.chat.id, text: "Reminder" }).pipe(
+            Effect.delay("1 hour"),
+            Effect.forkDaemon,
+            Effect.asVoid
+          )
+          : Effect.void)
+
+      yield* user.sends("/remind")
+      yield* tester.takeReplies
+      yield* tester.advance("59 minutes")
+      expect(yield* tester.takeReplies).toEqual([])
+
+      yield* tester.advance("1 minute")
+      expect(texts(yield* tester.takeReplies)).toEqual(["Reminder"])
+    }).pipe(Effect.provide(BotTesterAppLive)))
+})
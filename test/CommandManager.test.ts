@@ -0,0 +1,300 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer, Option, Schema } from "effect"
+import {
+  CommandManagerConfigContext,
+  CommandManagerContext,
+  CommandManagerLive,
+  deepLinkPayload,
+  defineCommand,
+  makeStartLink,
+  parseBotCommand
+} from "../src/CommandManager.js"
+import { formCommand, helpCommand } from "../src/CommandManagerApp.js"
+import { createForm, createFormStep, FormCacheLive, FormManagerContext, FormManagerLive } from "../src/Form.js"
+import { GuardConfigContext, GuardManagerLive, ownerOnly, privateChatOnly } from "../src/Guard.js"
+import { HistoryCacheLive } from "../src/HistoryCache.js"
+import { MessageCacheLive } from "../src/MessageCache.js"
+import { TelegramBotApiContext } from "../src/TelegramBotApi.js"
+import { MockTelegramServerContext, TestTelegramBotApiLive } from "../src/TestTelegramBotApi.js"
+
+const CommandManagerTest = CommandManagerLive.pipe(
+  Layer.provide(Layer.succeed(CommandManagerConfigContext, {
+    unknownCommandInGroups: "react",
+    unknownCommandInPrivate: "reply"
+  })),
+  Layer.provideMerge(FormManagerLive),
+  Layer.provideMerge(GuardManagerLive),
+  Layer.provide(Layer.succeed(GuardConfigContext, { adminCacheTtl: 60000, ownerIds: [1] })),
+  Layer.provide(FormCacheLive),
+  Layer.provide(HistoryCacheLive),
+  Layer.provide(MessageCacheLive),
+  Layer.provideMerge(TestTelegramBotApiLive)
+)
+
+// Feed a user's text to the command manager or the active form, like the bot does
+const userSends = (text: string) =>
+  Effect.gen(function*() {
+    const commandManager = yield* CommandManagerContext
+    const formManager = yield* FormManagerContext
+    const server = yield* MockTelegramServerContext
+    const telegramBotApi = yield* TelegramBotApiContext
+
+    const message = yield* server.pushMessage(text)
+    if (text.startsWith("/")) {
+      return yield* commandManager.handle(message)
+    }
+    yield* formManager.processInput(message.chat.id, text, telegramBotApi)
+  })
+
+const botReplies = Effect.flatMap(
+  MockTelegramServerContext,
+  (server) => Effect.map(server.sentMessages, (messages) => messages.map((message) => message.text))
+)
+
+describe("CommandManager", () => {
+  it.effect("should answer an unknown command", () =>
+    Effect.gen(function*() {
+      yield* userSends("/unknown")
+
+      expect(yield* botReplies).toEqual(["Unknown command: /unknown. Use /help to see available commands."])
+    }).pipe(Effect.provide(CommandManagerTest)))
+
+  it.effect("should walk a user through a form", () =>
+    Effect.gen(function*() {
+      const commandManager = yield* CommandManagerContext
+      const formManager = yield* FormManagerContext
+
+      yield* commandManager.register(formCommand)
+      yield* formManager.registerForm(createForm(
+        "registration",
+        [createFormStep("What is your name?", "name"), createFormStep("What is your age?", "age")],
+        (chatId, results, telegramBotApi) =>
+          telegramBotApi.sendMessage({ chat_id: chatId, text: `Welcome ${results.name} (${results.age})` })
+      ))
+
+      yield* userSends("/form registration")
+      expect(yield* botReplies).toEqual(["What is your name?"])
+
+      yield* userSends("Ada")
+      yield* userSends("36")
+      expect(yield* botReplies).toEqual(["What is your name?", "What is your age?", "Welcome Ada (36)"])
+
+      const error = yield* Effect.flip(userSends("again"))
+      expect(error._tag).toBe("FormManagerNoActiveFormError")
+    }).pipe(Effect.provide(CommandManagerTest)))
+
+  it.effect("should pass typed arguments to a command", () =>
+    Effect.gen(function*() {
+      const commandManager = yield* CommandManagerContext
+      const received: Array<unknown> = []
+      const remind = defineCommand({
+        name: "remind",
+        description: "Remind about something later",
+        args: Schema.Struct({
+          title: Schema.String,
+          minutes: Schema.NumberFromString,
+          channel: Schema.optional(Schema.Literal("chat", "email")),
+          tags: Schema.optional(Schema.Array(Schema.String))
+        }),
+        handler: (args) => Effect.sync(() => received.push(args))
+      })
+      expect(remind.usage).toBe("/remind <title> <minutes> [chat|email] [tags...]")
+
+      yield* commandManager.register(remind)
+      yield* userSends("/remind \"buy milk\" 15")
+      yield* userSends("/Remind call 5 email work home")
+      expect(received).toEqual([
+        { minutes: 15, title: "buy milk" },
+        { channel: "email", minutes: 5, tags: ["work", "home"], title: "call" }
+      ])
+    }).pipe(Effect.provide(CommandManagerTest)))
+
+  it.effect("should reply with the usage to invalid arguments", () =>
+    Effect.gen(function*() {
+      const commandManager = yield* CommandManagerContext
+      yield* commandManager.register(defineCommand({
+        name: "roll",
+        description: "Roll a die",
+        args: Schema.Struct({ sides: Schema.NumberFromString }),
+        handler: () => Effect.die("should not run")
+      }))
+
+      yield* userSends("/roll")
+      yield* userSends("/roll six")
+      yield* userSends("/roll 6 6")
+      expect(yield* botReplies).toEqual([
+        "Missing <sides>\nUsage: /roll <sides>",
+        "Invalid sides: Unable to decode \"six\" into a number\nUsage: /roll <sides>",
+        "Unexpected argument: 6\nUsage: /roll <sides>"
+      ])
+    }).pipe(Effect.provide(CommandManagerTest)))
+
+  it.effect("should generate /help and the command menu from the registered commands", () =>
+    Effect.gen(function*() {
+      const commandManager = yield* CommandManagerContext
+      const server = yield* MockTelegramServerContext
+      yield* commandManager.register(helpCommand)
+      yield* commandManager.register(defineCommand({
+        name: "ban",
+        description: "Ban a user",
+        descriptions: { de: "Nutzer sperren" },
+        args: Schema.Struct({ user: Schema.String }),
+        scopes: [{ type: "all_chat_administrators" }],
+        handler: () => Effect.void
+      }))
+      yield* commandManager.register(defineCommand({
+        name: "debug",
+        description: "Dump the state",
+        args: Schema.Struct({}),
+        hidden: true,
+        handler: () => Effect.void
+      }))
+
+      const message = yield* server.pushMessage("/help", {
+        from: { first_name: "Ada", id: 1, is_bot: false, language_code: "de-DE" }
+      })
+      yield* commandManager.handle(message)
+      expect(yield* botReplies).toEqual([
+        "🤖 Available Commands:\n\n/help - Show this help message\n/ban <user> - Nutzer sperren"
+      ])
+
+      yield* server.clearCalls
+      yield* commandManager.syncCommands
+      expect((yield* server.calls).map((call) => call.params)).toEqual([
+        { commands: [{ command: "help", description: "Show this help message" }], scope: { type: "default" } },
+        { commands: [{ command: "ban", description: "Ban a user" }], scope: { type: "all_chat_administrators" } },
+        {
+          commands: [{ command: "ban", description: "Nutzer sperren" }],
+          language_code: "de",
+          scope: { type: "all_chat_administrators" }
+        }
+      ])
+    }).pipe(Effect.provide(CommandManagerTest)))
+
+  it.effect("should only run the commands addressed to this bot", () =>
+    Effect.gen(function*() {
+      const commandManager = yield* CommandManagerContext
+      yield* commandManager.register(helpCommand)
+      const group = { id: -100, title: "Group", type: "group" }
+
+      const server = yield* MockTelegramServerContext
+      for (const text of ["/help@other_bot", "/help@Test_Bot", "/ help", "see /help"]) {
+        yield* commandManager.handle(yield* server.pushMessage(text, { chat: group }))
+      }
+      expect((yield* botReplies).length).toBe(1)
+      expect(parseBotCommand(yield* server.pushMessage("/start@test_bot  abc  "))).toEqual(Option.some({
+        argsText: "abc",
+        name: "start",
+        username: "test_bot"
+      }))
+    }).pipe(Effect.provide(CommandManagerTest)))
+
+  it.effect("should decode the payload of a deep link", () =>
+    Effect.gen(function*() {
+      const commandManager = yield* CommandManagerContext
+      const Referral = Schema.Struct({ campaign: Schema.Literal("spring", "fall"), from: Schema.Number })
+      const received: Array<unknown> = []
+      yield* commandManager.register(defineCommand({
+        name: "start",
+        description: "Start interacting with the bot",
+        args: Schema.Struct({ referral: Schema.optional(deepLinkPayload(Referral)) }),
+        handler: ({ referral }) => Effect.sync(() => received.push(referral))
+      }))
+
+      const link = yield* makeStartLink("test_bot", Referral, { campaign: "spring", from: 42 }, { group: true })
+      const [, payload] = link.split("?startgroup=")
+      expect(link).toMatch(/^https:\/\/t\.me\/test_bot\?startgroup=[A-Za-z0-9_-]+$/)
+
+      yield* userSends(`/start@test_bot ${payload}`)
+      yield* userSends("/start")
+      yield* userSends("/start not*a*payload")
+      expect(received).toEqual([{ campaign: "spring", from: 42 }, undefined])
+      expect(yield* botReplies).toEqual(["Invalid referral: Expected a deep link payload\nUsage: /start [referral]"])
+    }).pipe(Effect.provide(CommandManagerTest)))
+
+  it.effect("should run aliases and suggest the closest command", () =>
+    Effect.gen(function*() {
+      const commandManager = yield* CommandManagerContext
+      const server = yield* MockTelegramServerContext
+      const ran: Array<string> = []
+      const photo = defineCommand({
+        name: "photo",
+        aliases: ["p", "pic"],
+        description: "Send a photo",
+        args: Schema.Struct({}),
+        handler: (_, { messageText }) => Effect.sync(() => ran.push(messageText))
+      })
+      yield* commandManager.register(photo)
+
+      yield* userSends("/pic")
+      yield* userSends("/phto")
+      yield* userSends("/weather")
+      expect(ran).toEqual(["/pic"])
+      expect(yield* botReplies).toEqual([
+        "Unknown command: /phto. Did you mean /photo?",
+        "Unknown command: /weather. Use /help to see available commands."
+      ])
+
+      // Groups are configured to react instead of replying
+      const message = yield* server.pushMessage("/phto", { chat: { id: -100, title: "Group", type: "group" } })
+      yield* server.clearCalls
+      yield* commandManager.handle(message)
+      expect(yield* server.calls).toEqual([{
+        method: "setMessageReaction",
+        params: { chat_id: -100, message_id: message.message_id, reaction: [{ emoji: "🤔", type: "emoji" }] }
+      }])
+    }).pipe(Effect.provide(CommandManagerTest)))
+
+  it.effect("should reject taken names until the command is unregistered", () =>
+    Effect.gen(function*() {
+      const commandManager = yield* CommandManagerContext
+      const command = (name: string, aliases: Array<string>) =>
+        defineCommand({ name, aliases, description: name, args: Schema.Struct({}), handler: () => Effect.void })
+      yield* commandManager.register(command("photo", ["p"]))
+
+      const error = yield* Effect.flip(commandManager.register(command("picture", ["P"])))
+      expect(error).toMatchObject({ _tag: "CommandManagerDuplicateCommandError", name: "p" })
+
+      yield* commandManager.unregister("p")
+      yield* commandManager.register(command("picture", ["p"]))
+      expect((yield* commandManager.commands).map(({ name }) => name)).toEqual(["picture"])
+    }).pipe(Effect.provide(CommandManagerTest)))
+
+  it.effect("should answer users denied by a guard of a command or form", () =>
+    Effect.gen(function*() {
+      const commandManager = yield* CommandManagerContext
+      const formManager = yield* FormManagerContext
+      const server = yield* MockTelegramServerContext
+      yield* commandManager.register(helpCommand)
+      yield* commandManager.register(formCommand)
+      yield* commandManager.register(defineCommand({
+        name: "shutdown",
+        description: "Stop the bot",
+        args: Schema.Struct({ reason: Schema.String }),
+        guards: [ownerOnly({ denial: "Nice try." })],
+        handler: () => Effect.void
+      }))
+      yield* formManager.registerForm(createForm(
+        "feedback",
+        [createFormStep("What do you think?", "feedback")],
+        () => Effect.void,
+        [privateChatOnly()]
+      ))
+
+      // The owner may shut down, and is told the usage when missing the reason
+      yield* userSends("/shutdown")
+      const stranger = { first_name: "Eve", id: 2, is_bot: false }
+      for (const text of ["/shutdown", "/help"]) {
+        yield* commandManager.handle(yield* server.pushMessage(text, { from: stranger }))
+      }
+      const group = { id: -100, title: "Group", type: "group" }
+      yield* commandManager.handle(yield* server.pushMessage("/form feedback", { chat: group }))
+
+      expect(yield* botReplies).toEqual([
+        "Missing <reason>\nUsage: /shutdown <reason>",
+        "Nice try.",
+        "🤖 Available Commands:\n\n/help - Show this help message\n/form <formName> - Start filling out a form",
+        "This only works in a private chat with the bot."
+      ])
+    }).pipe(Effect.provide(CommandManagerTest)))
+})
@@ -0,0 +1,140 @@
+import { FileSystem, HttpClientError, type HttpClientRequest } from "@effect/platform"
+import { NodeFileSystem } from "@effect/platform-node"
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer, Ref } from "effect"
+import { FileDownloaderConfigContext, FileDownloaderContext, FileDownloaderLive } from "../src/FileDownloader.js"
+import type { File, TelegramBotApiConfig } from "../src/TelegramBotApi.js"
+import { makeStubTelegramBotApiLive } from "../src/TestTelegramBotApi.js"
+
+const TOKEN = "123456:TEST"
+
+// Answers getFile with the file, and requests for the file's content with the given answer
+const makeFileDownloaderTest = (
+  file: Omit<File, "file_id" | "file_unique_id">,
+  answer: (request: HttpClientRequest.HttpClientRequest) => Effect.Effect<Response, HttpClientError.HttpClientError>,
+  urlsRef: Ref.Ref<Array<string>>,
+  config: Partial<TelegramBotApiConfig> = {}
+) =>
+  FileDownloaderLive.pipe(
+    Layer.provide(Layer.succeed(FileDownloaderConfigContext, { maxFileSize: 10 })),
+    Layer.provide(makeStubTelegramBotApiLive(
+      (request) =>
+        Ref.update(urlsRef, (urls) => [...urls, request.url]).pipe(
+          Effect.zipRight(
+            request.url.endsWith("/getFile")
+              ? Effect.succeed(Response.json({ ok: true, result: { file_id: "1", file_unique_id: "u1", ...file } }))
+              : answer(request)
+          )
+        ),
+      config
+    ))
+  )
+
+const content = (text: string) => () => Effect.succeed(new Response(text))
+
+describe("FileDownloader", () => {
+  it.effect("should download from the file URL next to a custom API base URL", () =>
+    Effect.gen(function*() {
+      const urlsRef = yield* Ref.make<Array<string>>([])
+      const fileDownloader = yield* FileDownloaderContext.pipe(
+        Effect.provide(makeFileDownloaderTest({ file_path: "photos/1.jpg" }, content("hello"), urlsRef, {
+          apiBaseUrl: "http://127.0.0.1:8081/bot"
+        }))
+      )
+
+      const bytes = yield* fileDownloader.downloadToBuffer("1")
+
+      expect(Buffer.from(bytes).toString()).toBe("hello")
+      expect(yield* Ref.get(urlsRef)).toEqual([
+        `http://127.0.0.1:8081/bot${TOKEN}/getFile`,
+        `http://127.0.0.1:8081/file/bot${TOKEN}/photos/1.jpg`
+      ])
+    }))
+
+  it.effect("should reject a file larger than the maximum size before downloading it", () =>
+    Effect.gen(function*() {
+      const urlsRef = yield* Ref.make<Array<string>>([])
+      const fileDownloader = yield* FileDownloaderContext.pipe(
+        Effect.provide(makeFileDownloaderTest({ file_path: "videos/1.mp4", file_size: 11 }, content(""), urlsRef))
+      )
+
+      const error = yield* Effect.flip(fileDownloader.downloadToBuffer("1"))
+
+      expect(error.message).toBe("File of 11 bytes exceeds the maximum size of 10 bytes")
+      expect(yield* Ref.get(urlsRef)).toHaveLength(1)
+    }))
+
+  it.effect("should stop a download of unknown size once it exceeds the maximum size", () =>
+    Effect.gen(function*() {
+      const urlsRef = yield* Ref.make<Array<string>>([])
+      const fileDownloader = yield* FileDownloaderContext.pipe(
+        Effect.provide(makeFileDownloaderTest({ file_path: "videos/1.mp4" }, content("hello world"), urlsRef))
+      )
+
+      const error = yield* Effect.flip(fileDownloader.downloadToBuffer("1"))
+
+      expect(error.message).toBe("File exceeds the maximum size of 10 bytes")
+    }))
+
+  it.scoped("should read absolute file paths of a local Bot API server from disk", () =>
+    Effect.gen(function*() {
+      const fileSystem = yield* FileSystem.FileSystem
+      const directory = yield* fileSystem.makeTempDirectoryScoped()
+      yield* fileSystem.writeFileString(`${directory}/1.txt`, "local")
+      const urlsRef = yield* Ref.make<Array<string>>([])
+      const fileDownloader = yield* FileDownloaderContext.pipe(
+        Effect.provide(makeFileDownloaderTest({ file_path: `${directory}/1.txt` }, content(""), urlsRef, {
+          apiBaseUrl: "http://127.0.0.1:8081/bot",
+          localMode: true
+        }))
+      )
+
+      const bytes = yield* fileDownloader.downloadToBuffer("1")
+
+      expect(Buffer.from(bytes).toString()).toBe("local")
+      expect(yield* Ref.get(urlsRef)).toHaveLength(1)
+    }).pipe(Effect.provide(NodeFileSystem.layer)))
+
+  it.scoped("should download a file to disk", () =>
+    Effect.gen(function*() {
+      const fileSystem = yield* FileSystem.FileSystem
+      const directory = yield* fileSystem.makeTempDirectoryScoped()
+      const urlsRef = yield* Ref.make<Array<string>>([])
+      const fileDownloader = yield* FileDownloaderContext.pipe(
+        Effect.provide(makeFileDownloaderTest({ file_path: "documents/1.txt" }, content("on disk"), urlsRef))
+      )
+
+      yield* fileDownloader.downloadToFile("1", `${directory}/1.txt`)
+
+      expect(yield* fileSystem.readFileString(`${directory}/1.txt`)).toBe("on disk")
+    }).pipe(Effect.provide(NodeFileSystem.layer)))
+
+  it.effect("should keep the token out of download errors", () =>
+    Effect.gen(function*() {
+      const urlsRef = yield* Ref.make<Array<string>>([])
+      const download = (answer: Parameters<typeof makeFileDownloaderTest>[1]) =>
+        FileDownloaderContext.pipe(
+          Effect.flatMap((fileDownloader) => fileDownloader.downloadToBuffer("1")),
+          Effect.provide(makeFileDownloaderTest({ file_path: "photos/1.jpg" }, answer, urlsRef)),
+          Effect.flip
+        )
+
+      const notFound = yield* download(() => Effect.succeed(new Response("Not Found", { status: 404 })))
+      const unreachable = yield* download((request) =>
+        Effect.fail(
+          new HttpClientError.RequestError({
+            cause: new Error(`connect ECONNREFUSED ${request.url}`),
+            reason: "Transport",
+            request
+          })
+        )
+      )
+
+      expect(notFound.message).toBe("Failed to download file: StatusCode 404")
+      expect(unreachable.message).toBe("Failed to download file: Transport")
+      for (const error of [notFound, unreachable]) {
+        expect(JSON.stringify(error)).not.toContain(TOKEN)
+        expect(String(error)).not.toContain(TOKEN)
+      }
+    }))
+})
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer, Option, TestClock } from "effect"
+import {
+  adminOnly,
+  allowlist,
+  groupChatOnly,
+  GuardConfigContext,
+  GuardManagerContext,
+  GuardManagerLive,
+  ownerOnly
+} from "../src/Guard.js"
+import { TelegramBotApiContext } from "../src/TelegramBotApi.js"
+import { MockTelegramServerContext, TestTelegramBotApiLive } from "../src/TestTelegramBotApi.js"
+
+const GuardManagerTest = GuardManagerLive.pipe(
+  Layer.provide(Layer.succeed(GuardConfigContext, { adminCacheTtl: 60000, ownerIds: [1] })),
+  Layer.provideMerge(TestTelegramBotApiLive)
+)
+
+const group = { chatId: -100, chatType: "supergroup" }
+
+const callsTo = (method: string) =>
+  Effect.flatMap(
+    MockTelegramServerContext,
+    (server) => Effect.map(server.calls, (calls) => calls.filter((call) => call.method === method).length)
+  )
+
+describe("Guard", () => {
+  it.effect("should return the first guard denying the user", () =>
+    Effect.gen(function*() {
+      const guardManager = yield* GuardManagerContext
+      const guards = [groupChatOnly(), ownerOnly(), allowlist([1, 2])]
+
+      expect(yield* guardManager.check(guards, { ...group, userId: 1 })).toEqual(Option.none())
+      expect(yield* guardManager.check(guards, { ...group, userId: 3 })).toEqual(Option.some(ownerOnly()))
+      expect(yield* guardManager.check(guards, { chatId: 1, chatType: "private", userId: 1 })).toEqual(
+        Option.some(groupChatOnly())
+      )
+    }).pipe(Effect.provide(GuardManagerTest)))
+
+  it.effect("should cache the administrators of a chat and notice promotions", () =>
+    Effect.gen(function*() {
+      const guardManager = yield* GuardManagerContext
+      const telegramBotApi = yield* TelegramBotApiContext
+      yield* telegramBotApi.promoteChatMember({ can_delete_messages: true, chat_id: -100, user_id: 5 })
+
+      expect(yield* guardManager.check([adminOnly()], { ...group, userId: 5 })).toEqual(Option.none())
+      expect(yield* guardManager.isChatAdmin(-100, 5)).toBe(true)
+      // Users who are no administrators are looked up every time
+      expect(yield* guardManager.isChatAdmin(-100, 6)).toBe(false)
+      expect(yield* guardManager.isChatAdmin(-100, 6)).toBe(false)
+      expect([yield* callsTo("getChatAdministrators"), yield* callsTo("getChatMember")]).toEqual([1, 2])
+
+      // A user promoted after the administrators were cached is noticed right away, and then cached
+      yield* telegramBotApi.promoteChatMember({ can_pin_messages: true, chat_id: -100, user_id: 6 })
+      expect(yield* guardManager.isChatAdmin(-100, 6)).toBe(true)
+      expect(yield* guardManager.isChatAdmin(-100, 6)).toBe(true)
+      expect([yield* callsTo("getChatAdministrators"), yield* callsTo("getChatMember")]).toEqual([1, 3])
+
+      // Once the administrators expire they are fetched again, now including the promoted user
+      yield* TestClock.adjust("61 seconds")
+      expect(yield* guardManager.isChatAdmin(-100, 6)).toBe(true)
+      expect([yield* callsTo("getChatAdministrators"), yield* callsTo("getChatMember")]).toEqual([2, 3])
+
+      // Private chats have no administrators
+      expect(yield* guardManager.check([adminOnly()], { chatId: 5, chatType: "private", userId: 5 })).toEqual(
+        Option.some(adminOnly())
+      )
+    }).pipe(Effect.provide(GuardManagerTest)))
+})
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+import { MessageCacheContext, MessageCacheLive } from "../src/MessageCache.js"
+
+const message = { chat: { id: 1, type: "private" }, date: 1700000000, message_id: 1, text: "hello" }
+
+describe("MessageCache", () => {
+  it.effect("should save and retrieve a message", () =>
+    Effect.gen(function*() {
+      const messageCache = yield* MessageCacheContext
+
+      yield* messageCache.set("photo", message)
+
+      expect(yield* messageCache.get("photo")).toEqual(message)
+    }).pipe(Effect.provide(MessageCacheLive)))
+
+  it.effect("should return undefined for a missing message", () =>
+    Effect.gen(function*() {
+      const messageCache = yield* MessageCacheContext
+
+      expect(yield* messageCache.get("missing")).toBeUndefined()
+    }).pipe(Effect.provide(MessageCacheLive)))
+
+  it.effect("should replace an existing message", () =>
+    Effect.gen(function*() {
+      const messageCache = yield* MessageCacheContext
+
+      yield* messageCache.set("photo", message)
+      yield* messageCache.set("photo", { ...message, message_id: 2 })
+
+      expect((yield* messageCache.get("photo"))?.message_id).toBe(2)
+    }).pipe(Effect.provide(MessageCacheLive)))
+})
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Context, Effect, Option } from "effect"
+import { makeUpdateContext, MiddlewareManagerContext, MiddlewareManagerLive } from "../src/Middleware.js"
+import type { Update } from "../src/TelegramBotApi.js"
+
+class Locale extends Context.Tag("Locale")<Locale, string>() {}
+
+const update: Update = {
+  message: {
+    chat: { id: 10, type: "private" },
+    date: 0,
+    from: { first_name: "Ada", id: 20, is_bot: false },
+    message_id: 1,
+    text: "hello"
+  },
+  update_id: 1
+}
+
+describe("MiddlewareManager", () => {
+  it("should extract the chat and user of an update", () => {
+    const context = makeUpdateContext(update)
+    expect(context.chat?.id).toBe(10)
+    expect(context.user?.id).toBe(20)
+    expect(makeUpdateContext({ update_id: 2 })).toEqual({ update: { update_id: 2 } })
+  })
+
+  it("should extract the chat and user where each update type carries them", () => {
+    const chat = { id: 10, type: "group" } as const
+    const user = { first_name: "Ada", id: 20, is_bot: false }
+    const callbackQuery = makeUpdateContext({
+      callback_query: { chat_instance: "1", from: user, id: "1", message: { chat, date: 0, message_id: 1 } },
+      update_id: 3
+    })
+    const pollAnswer = makeUpdateContext({
+      poll_answer: { option_ids: [0], poll_id: "1", voter_chat: chat },
+      update_id: 4
+    })
+    const chatBoost = makeUpdateContext({
+      removed_chat_boost: { boost_id: "1", chat, remove_date: 0, source: { source: "premium", user } },
+      update_id: 5
+    })
+
+    expect([callbackQuery.chat, callbackQuery.user]).toEqual([chat, user])
+    expect([pollAnswer.chat, pollAnswer.user]).toEqual([chat, undefined])
+    expect([chatBoost.chat, chatBoost.user]).toEqual([chat, undefined])
+  })
+
+  it.effect("should run middleware in registration order around the handler", () =>
+    Effect.gen(function*() {
+      const middlewareManager = yield* MiddlewareManagerContext
+      const calls: Array<string> = []
+
+      yield* middlewareManager.use((_, next) =>
+        Effect.sync(() => calls.push("outer:before")).pipe(
+          Effect.zipRight(next),
+          Effect.zipRight(Effect.sync(() => calls.push("outer:after")))
+        )
+      )
+      yield* middlewareManager.use((_, next) =>
+        Effect.sync(() => calls.push("inner")).pipe(Effect.zipRight(next.pipe(Effect.provideService(Locale, "en"))))
+      )
+
+      yield* middlewareManager.run(update, (context) =>
+        Effect.gen(function*() {
+          const locale = yield* Effect.serviceOption(Locale)
+          calls.push(`handler:${context.user?.id}:${Option.getOrElse(locale, () => "none")}`)
+        }))
+
+      expect(calls).toEqual(["outer:before", "inner", "handler:20:en", "outer:after"])
+    }).pipe(Effect.provide(MiddlewareManagerLive)))
+
+  it.effect("should let middleware short-circuit the chain", () =>
+    Effect.gen(function*() {
+      const middlewareManager = yield* MiddlewareManagerContext
+      let handled = false
+
+      yield* middlewareManager.use((context, next) => context.user?.id === 20 ? Effect.void : next)
+
+      yield* middlewareManager.run(update, () => Effect.sync(() => handled = true))
+
+      expect(handled).toBe(false)
+    }).pipe(Effect.provide(MiddlewareManagerLive)))
+})
@@ -0,0 +1,25 @@
+import { FileSystem } from "@effect/platform"
+import { NodeFileSystem } from "@effect/platform-node"
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer } from "effect"
+import { makeOffsetStoreFileLive, OffsetStoreContext } from "../src/OffsetStore.js"
+
+describe("OffsetStore", () => {
+  it.scoped("should persist the offset in a file across instances", () =>
+    Effect.gen(function*() {
+      const fileSystem = yield* FileSystem.FileSystem
+      const directory = yield* fileSystem.makeTempDirectoryScoped()
+      const OffsetStoreTest = makeOffsetStoreFileLive(`${directory}/offset`).pipe(Layer.provide(NodeFileSystem.layer))
+
+      yield* Effect.gen(function*() {
+        const offsetStore = yield* OffsetStoreContext
+        expect(yield* offsetStore.get).toBe(0)
+        yield* offsetStore.set(42)
+      }).pipe(Effect.provide(OffsetStoreTest))
+
+      const offset = yield* Effect.flatMap(OffsetStoreContext, (offsetStore) => offsetStore.get).pipe(
+        Effect.provide(OffsetStoreTest)
+      )
+      expect(offset).toBe(42)
+    }).pipe(Effect.provide(NodeFileSystem.layer)))
+})
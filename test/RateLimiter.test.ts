@@ -0,0 +1,55 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Fiber, Layer, TestClock } from "effect"
+import { RateLimiterConfigContext, RateLimiterContext, RateLimiterLive } from "../src/RateLimiter.js"
+
+const RateLimiterTest = RateLimiterLive.pipe(
+  Layer.provide(Layer.succeed(RateLimiterConfigContext, {
+    globalPerSecond: 30,
+    groupChatPerMinute: 20,
+    privateChatPerSecond: 1
+  }))
+)
+
+describe("RateLimiter", () => {
+  it.effect("should space messages to the same private chat", () =>
+    Effect.gen(function*() {
+      const rateLimiter = yield* RateLimiterContext
+
+      yield* rateLimiter.acquire(1)
+      const fiber = yield* Effect.fork(rateLimiter.acquire(1))
+      yield* TestClock.adjust(Duration.millis(1))
+      expect(yield* rateLimiter.queueDepth).toBe(1)
+
+      yield* TestClock.adjust(Duration.seconds(1))
+      yield* Fiber.join(fiber)
+      expect(yield* rateLimiter.queueDepth).toBe(0)
+    }).pipe(Effect.provide(RateLimiterTest)))
+
+  it.effect("should allow 20 messages per minute to a group", () =>
+    Effect.gen(function*() {
+      const rateLimiter = yield* RateLimiterContext
+
+      yield* rateLimiter.acquire(-100)
+      const fiber = yield* Effect.fork(rateLimiter.acquire(-100))
+      yield* TestClock.adjust(Duration.seconds(2))
+      expect(fiber.unsafePoll()).toBeNull()
+
+      yield* TestClock.adjust(Duration.seconds(1))
+      yield* Fiber.join(fiber)
+    }).pipe(Effect.provide(RateLimiterTest)))
+
+  it.effect("should hold back a chat after a 429", () =>
+    Effect.gen(function*() {
+      const rateLimiter = yield* RateLimiterContext
+
+      yield* rateLimiter.penalize(1, Duration.seconds(5))
+      const fiber = yield* Effect.fork(rateLimiter.acquire(1))
+      // Other chats are not affected
+      yield* rateLimiter.acquire(2)
+      yield* TestClock.adjust(Duration.seconds(4))
+      expect(fiber.unsafePoll()).toBeNull()
+
+      yield* TestClock.adjust(Duration.seconds(1))
+      yield* Fiber.join(fiber)
+    }).pipe(Effect.provide(RateLimiterTest)))
+})
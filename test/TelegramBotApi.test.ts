@@ -0,0 +1,335 @@
+import type { HttpClientRequest } from "@effect/platform"
+import { describe, expect, it } from "@effect/vitest"
+import { Chunk, Clock, Context, Effect, Fiber, Layer, Redacted, Ref, Schedule, Stream, TestClock } from "effect"
+import { RateLimiterContext } from "../src/RateLimiter.js"
+import { TelegramBotApiContext, withTelegramRequestOptions } from "../src/TelegramBotApi.js"
+import { makeStubTelegramBotApiLive } from "../src/TestTelegramBotApi.js"
+
+// Answers with the given responses first, then with a sent message
+const makeTelegramBotApiTest = (
+  requestsRef: Ref.Ref<Array<HttpClientRequest.HttpClientRequest>>,
+  localMode = false,
+  responses: Array<Response> = []
+) =>
+  makeStubTelegramBotApiLive(
+    (request) =>
+      Ref.update(requestsRef, (requests) => [...requests, request]).pipe(
+        Effect.as(
+          responses.shift() ??
+            Response.json({ ok: true, result: { chat: { id: 1, type: "private" }, date: 0, message_id: 1 } })
+        )
+      ),
+    { localMode, strictDecoding: false, token: Redacted.make("token") }
+  )
+
+const readBody = (request: HttpClientRequest.HttpClientRequest) =>
+  Effect.gen(function*() {
+    expect(request.body._tag).toBe("Stream")
+    if (request.body._tag !== "Stream") {
+      return { body: "", contentLength: undefined }
+    }
+    const chunks = yield* Stream.runCollect(request.body.stream)
+    const body = Buffer.concat(Chunk.toArray(chunks)).toString()
+    return { body, contentLength: request.body.contentLength }
+  })
+
+describe("TelegramBotApi", () => {
+  it.effect("should stream an upload of known length", () =>
+    Effect.gen(function*() {
+      const requestsRef = yield* Ref.make<Array<HttpClientRequest.HttpClientRequest>>([])
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(Effect.provide(makeTelegramBotApiTest(requestsRef)))
+
+      yield* telegramBotApi.sendDocument({
+        chat_id: 1,
+        document: { content: Buffer.from("hello"), filename: "hello.txt", mime_type: "text/plain" },
+        reply_markup: { inline_keyboard: [] }
+      })
+
+      const [request] = yield* Ref.get(requestsRef)
+      const { body, contentLength } = yield* readBody(request)
+      expect(body).toContain(`name="document"; filename="hello.txt"\r\nContent-Type: text/plain\r\n\r\nhello\r\n`)
+      expect(body).toContain(`name="reply_markup"\r\n\r\n{"inline_keyboard":[]}\r\n`)
+      expect(contentLength).toBe(Buffer.byteLength(body))
+    }))
+
+  it.effect("should stream an upload of unknown length without a content length", () =>
+    Effect.gen(function*() {
+      const requestsRef = yield* Ref.make<Array<HttpClientRequest.HttpClientRequest>>([])
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(Effect.provide(makeTelegramBotApiTest(requestsRef)))
+
+      yield* telegramBotApi.sendVideo({
+        chat_id: 1,
+        video: {
+          filename: "video.mp4",
+          mime_type: "video/mp4",
+          stream: Stream.make(new TextEncoder().encode("ab"), new TextEncoder().encode("cd"))
+        }
+      })
+
+      const [request] = yield* Ref.get(requestsRef)
+      const { body, contentLength } = yield* readBody(request)
+      expect(body).toContain(`filename="video.mp4"\r\nContent-Type: video/mp4\r\n\r\nabcd\r\n`)
+      expect(contentLength).toBeUndefined()
+    }))
+
+  it.effect("should upload files nested in media as attachments", () =>
+    Effect.gen(function*() {
+      const requestsRef = yield* Ref.make<Array<HttpClientRequest.HttpClientRequest>>([])
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(Effect.provide(makeTelegramBotApiTest(requestsRef)))
+
+      yield* telegramBotApi.sendMediaGroup({
+        chat_id: 1,
+        media: [
+          { media: { content: "one", filename: "one.jpg", mime_type: "image/jpeg" }, type: "photo" },
+          {
+            media: { content: "two", filename: "two.mp4", mime_type: "video/mp4" },
+            thumbnail: { content: "thumb", filename: "thumb.jpg", mime_type: "image/jpeg" },
+            type: "video"
+          },
+          { media: "file_id", type: "photo" }
+        ]
+      })
+
+      const [request] = yield* Ref.get(requestsRef)
+      const { body } = yield* readBody(request)
+      expect(body).toContain(
+        `name="media"\r\n\r\n${
+          JSON.stringify([
+            { media: "attach://file0", type: "photo" },
+            { media: "attach://file1", thumbnail: "attach://file2", type: "video" },
+            { media: "file_id", type: "photo" }
+          ])
+        }\r\n`
+      )
+      expect(body).toContain(`name="file0"; filename="one.jpg"\r\nContent-Type: image/jpeg\r\n\r\none\r\n`)
+      expect(body).toContain(`name="file1"; filename="two.mp4"`)
+      expect(body).toContain(`name="file2"; filename="thumb.jpg"`)
+    }))
+
+  it.effect("should fail before sending when an upload path does not exist", () =>
+    Effect.gen(function*() {
+      const requestsRef = yield* Ref.make<Array<HttpClientRequest.HttpClientRequest>>([])
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(Effect.provide(makeTelegramBotApiTest(requestsRef)))
+
+      const error = yield* Effect.flip(telegramBotApi.sendAudio({
+        audio: { mime_type: "audio/mpeg", path: "/nonexistent/song.mp3" },
+        chat_id: 1
+      }))
+
+      expect(error._tag).toBe("TelegramBotApiFileError")
+      expect(yield* Ref.get(requestsRef)).toHaveLength(0)
+    }))
+
+  it.effect("should reject uploads larger than the server accepts", () =>
+    Effect.gen(function*() {
+      const requestsRef = yield* Ref.make<Array<HttpClientRequest.HttpClientRequest>>([])
+      const video = {
+        filename: "movie.mp4",
+        mime_type: "video/mp4",
+        size: 100 * 1024 * 1024,
+        stream: Stream.make(new TextEncoder().encode("movie"))
+      }
+
+      const cloud = yield* TelegramBotApiContext.pipe(Effect.provide(makeTelegramBotApiTest(requestsRef)))
+      const error = yield* Effect.flip(cloud.sendVideo({ chat_id: 1, video }))
+      expect(error._tag).toBe("TelegramBotApiFileError")
+      expect(yield* Ref.get(requestsRef)).toHaveLength(0)
+
+      const local = yield* TelegramBotApiContext.pipe(Effect.provide(makeTelegramBotApiTest(requestsRef, true)))
+      yield* local.sendVideo({ chat_id: 1, video })
+      expect(yield* Ref.get(requestsRef)).toHaveLength(1)
+    }))
+
+  it.effect("should pass file:// URIs to a local server only", () =>
+    Effect.gen(function*() {
+      const requestsRef = yield* Ref.make<Array<HttpClientRequest.HttpClientRequest>>([])
+      const params = { chat_id: 1, document: "file:///srv/reports/2024.pdf" }
+
+      const cloud = yield* TelegramBotApiContext.pipe(Effect.provide(makeTelegramBotApiTest(requestsRef)))
+      const error = yield* Effect.flip(cloud.sendDocument(params))
+      expect(error._tag).toBe("TelegramBotApiFileError")
+
+      const local = yield* TelegramBotApiContext.pipe(Effect.provide(makeTelegramBotApiTest(requestsRef, true)))
+      yield* local.sendDocument(params)
+      const [request] = yield* Ref.get(requestsRef)
+      expect(request.body._tag).toBe("Uint8Array")
+    }))
+
+  it.effect("should retry failures of an idempotent call with its own schedule", () =>
+    Effect.gen(function*() {
+      const requestsRef = yield* Ref.make<Array<HttpClientRequest.HttpClientRequest>>([])
+      const badGateway = () =>
+        Response.json({ description: "Bad Gateway", error_code: 502, ok: false }, { status: 502 })
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(
+        Effect.provide(makeTelegramBotApiTest(requestsRef, false, [badGateway(), badGateway()]))
+      )
+
+      const error = yield* Effect.flip(telegramBotApi.getChat({ chat_id: 1 }))
+      expect(error._tag).toBe("TelegramBotApiMethodError")
+      expect(yield* Ref.get(requestsRef)).toHaveLength(1)
+
+      yield* telegramBotApi.getChat({ chat_id: 1 }).pipe(
+        withTelegramRequestOptions({ idempotent: true, retrySchedule: Schedule.recurs(1) })
+      )
+      expect(yield* Ref.get(requestsRef)).toHaveLength(3)
+    }))
+
+  it.effect("should not retry failures of a call that is not safe to repeat", () =>
+    Effect.gen(function*() {
+      const requestsRef = yield* Ref.make<Array<HttpClientRequest.HttpClientRequest>>([])
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(
+        Effect.provide(makeTelegramBotApiTest(requestsRef, false, [
+          Response.json({ description: "Bad Gateway", error_code: 502, ok: false }, { status: 502 })
+        ]))
+      )
+
+      const error = yield* Effect.flip(
+        telegramBotApi.sendMessage({ chat_id: 1, text: "hello" }).pipe(
+          withTelegramRequestOptions({ retrySchedule: Schedule.recurs(1) })
+        )
+      )
+      expect(error._tag).toBe("TelegramBotApiMethodError")
+      expect(yield* Ref.get(requestsRef)).toHaveLength(1)
+    }))
+
+  it.live("should send once per idempotency key", () =>
+    Effect.gen(function*() {
+      const requestsRef = yield* Ref.make<Array<HttpClientRequest.HttpClientRequest>>([])
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(
+        Effect.provide(makeTelegramBotApiTest(requestsRef, false, [
+          Response.json({ description: "Bad Request: message text is empty", error_code: 400, ok: false }, {
+            status: 400
+          })
+        ]))
+      )
+      const send = telegramBotApi.sendMessage({ chat_id: 1, text: "hello" }).pipe(
+        withTelegramRequestOptions({ idempotencyKey: "order-1" })
+      )
+
+      // A failed send forgets its key, so it can be sent again
+      yield* Effect.flip(send)
+      const [first, second] = yield* Effect.all([send, send], { concurrency: "unbounded" })
+      expect(second).toBe(first)
+      expect(yield* Ref.get(requestsRef)).toHaveLength(2)
+
+      yield* telegramBotApi.sendMessage({ chat_id: 1, text: "hello" }).pipe(
+        withTelegramRequestOptions({ idempotencyKey: "order-2" })
+      )
+      expect(yield* Ref.get(requestsRef)).toHaveLength(3)
+    }))
+
+  it.effect("should fail on a malformed response when decoding strictly", () =>
+    Effect.gen(function*() {
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(
+        Effect.provide(makeStubTelegramBotApiLive(() =>
+          Effect.succeed(Response.json({
+            ok: true,
+            result: [{ poll_answer: { option_ids: ["0"], poll_id: "1" }, update_id: 1 }]
+          }))
+        ))
+      )
+
+      const error = yield* Effect.flip(telegramBotApi.getUpdates({}))
+
+      expect(error._tag).toBe("TelegramBotApiInvalidResponseError")
+      if (error._tag === "TelegramBotApiInvalidResponseError") {
+        expect(error.method).toBe("getUpdates")
+        expect(error.path).toEqual([0, "poll_answer", "option_ids", 0])
+      }
+    }))
+
+  it.effect("should map error responses to typed errors", () =>
+    Effect.gen(function*() {
+      const failWith = (errorCode: number, description: string) =>
+        TelegramBotApiContext.pipe(
+          Effect.provide(
+            makeStubTelegramBotApiLive(() =>
+              Effect.succeed(Response.json({ description, error_code: errorCode, ok: false }, { status: errorCode }))
+            )
+          ),
+          Effect.flatMap((telegramBotApi) => telegramBotApi.sendMessage({ chat_id: 1, text: "hello" })),
+          Effect.flip,
+          Effect.map((error) => error._tag)
+        )
+
+      expect(yield* failWith(403, "Forbidden: bot was blocked by the user")).toBe("TelegramBotApiBotBlockedError")
+      expect(yield* failWith(400, "Bad Request: chat not found")).toBe("TelegramBotApiChatNotFoundError")
+      expect(yield* failWith(409, "Conflict: terminated by other getUpdates request")).toBe(
+        "TelegramBotApiConflictError"
+      )
+      expect(yield* failWith(401, "Unauthorized")).toBe("TelegramBotApiUnauthorizedError")
+      expect(yield* failWith(400, "Bad Request: something new")).toBe("TelegramBotApiMethodError")
+    }))
+
+  it.effect("should keep the details of an error response", () =>
+    Effect.gen(function*() {
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(
+        Effect.provide(makeStubTelegramBotApiLive(() =>
+          Effect.succeed(Response.json({
+            description: "Bad Request: group chat was upgraded to a supergroup chat",
+            error_code: 400,
+            ok: false,
+            parameters: { migrate_to_chat_id: -1001 }
+          }, { status: 400 }))
+        ))
+      )
+
+      const migrated = yield* telegramBotApi.sendMessage({ chat_id: -1, text: "hello" }).pipe(
+        Effect.catchTag("TelegramBotApiChatMigratedError", (error) => Effect.succeed(error))
+      )
+
+      expect(migrated).toMatchObject({
+        description: "Bad Request: group chat was upgraded to a supergroup chat",
+        errorCode: 400,
+        method: "sendMessage",
+        parameters: { chat_id: -1, text: "hello" },
+        responseParameters: { migrate_to_chat_id: -1001 }
+      })
+    }))
+
+  it.effect("should retry a rate limited call after retry_after seconds and hold back its chat", () =>
+    Effect.gen(function*() {
+      const timesRef = yield* Ref.make<Array<number>>([])
+      const responses = [
+        Response.json(
+          {
+            description: "Too Many Requests: retry after 2",
+            error_code: 429,
+            ok: false,
+            parameters: { retry_after: 2 }
+          },
+          { status: 429 }
+        )
+      ]
+      const context = yield* Layer.build(makeStubTelegramBotApiLive(
+        () =>
+          Clock.currentTimeMillis.pipe(
+            Effect.flatMap((now) => Ref.update(timesRef, (times) => [...times, now])),
+            Effect.as(
+              responses.shift() ??
+                Response.json({ ok: true, result: { chat: { id: 1, type: "private" }, date: 0, message_id: 1 } })
+            )
+          ),
+        { retryAttempts: 1 }
+      ))
+      const telegramBotApi = Context.get(context, TelegramBotApiContext)
+      const rateLimiter = Context.get(context, RateLimiterContext)
+
+      const send = yield* Effect.fork(telegramBotApi.sendMessage({ chat_id: 1, text: "hello" }))
+      yield* TestClock.adjust("1 second")
+      expect(yield* Ref.get(timesRef)).toEqual([0])
+
+      // Further messages to the chat wait for the penalty as well
+      const next = yield* Effect.fork(rateLimiter.acquire(1))
+      yield* TestClock.adjust("999 millis")
+      expect(next.unsafePoll()).toBeNull()
+      expect(yield* Ref.get(timesRef)).toEqual([0])
+      yield* TestClock.adjust("1 milli")
+      yield* Fiber.join(next)
+
+      yield* TestClock.adjust("1 milli")
+      yield* Fiber.join(send)
+      const [, retried] = yield* Ref.get(timesRef)
+      expect(retried).toBeGreaterThanOrEqual(2000)
+    }).pipe(Effect.scoped))
+})
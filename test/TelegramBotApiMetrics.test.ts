@@ -0,0 +1,81 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Metric, Option, Redacted, Ref, type Tracer } from "effect"
+import { TelegramBotApiContext } from "../src/TelegramBotApi.js"
+import {
+  telegramRateLimitCount,
+  telegramRequestCount,
+  telegramRequestErrorCount
+} from "../src/TelegramBotApiMetrics.js"
+import { makeStubTelegramBotApiLive } from "../src/TestTelegramBotApi.js"
+
+// Answers every request with the next response, recording the span each request ran in
+const makeTelegramBotApiTest = (
+  responses: Array<Response>,
+  spansRef: Ref.Ref<Array<Tracer.AnySpan>>
+) =>
+  makeStubTelegramBotApiLive(
+    () =>
+      Effect.gen(function*() {
+        const span = yield* Effect.currentSpan.pipe(Effect.option)
+        if (Option.isSome(span)) {
+          yield* Ref.update(spansRef, (spans) => [...spans, span.value])
+        }
+        return responses.shift() ?? Response.json({ ok: true, result: true })
+      }),
+    { rateLimitDelay: 1, retryAttempts: 3, strictDecoding: false, token: Redacted.make("123456:SECRET") }
+  )
+
+const rateLimited = () =>
+  Response.json({ description: "Too Many Requests: retry after 0", error_code: 429, ok: false }, { status: 429 })
+
+const countOf = (counter: Metric.Metric.Counter<number>, method: string) =>
+  Effect.map(Metric.value(Metric.tagged(counter, "method", method)), (state) => state.count)
+
+describe("TelegramBotApiMetrics", () => {
+  it.live("should trace a retried call in a span without the token", () =>
+    Effect.gen(function*() {
+      const spansRef = yield* Ref.make<Array<Tracer.AnySpan>>([])
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(
+        Effect.provide(makeTelegramBotApiTest([rateLimited()], spansRef))
+      )
+      const rateLimitsBefore = yield* countOf(telegramRateLimitCount, "sendMessage")
+      const requestsBefore = yield* countOf(telegramRequestCount, "sendMessage")
+
+      yield* telegramBotApi.sendMessage({ chat_id: 42, text: "hello" })
+
+      const [first, second] = yield* Ref.get(spansRef)
+      expect(first).toBe(second)
+      expect(second._tag).toBe("Span")
+      if (second._tag === "Span") {
+        expect(second.name).toBe("telegram.sendMessage")
+        expect(second.attributes.get("telegram.chat_id")).toBe(42)
+        expect(second.attributes.get("telegram.retry_count")).toBe(1)
+        expect(second.attributes.get("http.response.status_code")).toBe(200)
+        expect(second.attributes.get("url.full")).not.toContain("SECRET")
+      }
+      expect(yield* countOf(telegramRateLimitCount, "sendMessage")).toBe(rateLimitsBefore + 1)
+      expect(yield* countOf(telegramRequestCount, "sendMessage")).toBe(requestsBefore + 1)
+    }))
+
+  it.live("should record the error_code of a failed call", () =>
+    Effect.gen(function*() {
+      const spansRef = yield* Ref.make<Array<Tracer.AnySpan>>([])
+      const telegramBotApi = yield* TelegramBotApiContext.pipe(
+        Effect.provide(makeTelegramBotApiTest([
+          Response.json({ description: "Bad Request: chat not found", error_code: 400, ok: false }, { status: 400 })
+        ], spansRef))
+      )
+      const errors = Metric.tagged(
+        Metric.tagged(telegramRequestErrorCount, "method", "getChat"),
+        "error",
+        "TelegramBotApiChatNotFoundError"
+      )
+      const errorsBefore = (yield* Metric.value(errors)).count
+
+      yield* Effect.flip(telegramBotApi.getChat({ chat_id: 42 }))
+
+      const [span] = yield* Ref.get(spansRef)
+      expect(span._tag === "Span" && span.attributes.get("telegram.error_code")).toBe(400)
+      expect((yield* Metric.value(errors)).count).toBe(errorsBefore + 1)
+    }))
+})
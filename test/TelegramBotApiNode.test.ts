@@ -0,0 +1,106 @@
+import { NodeFileSystem } from "@effect/platform-node"
+import { describe, expect, it } from "@effect/vitest"
+import { ConfigProvider, Effect, Layer } from "effect"
+import * as Http from "node:http"
+import * as Net from "node:net"
+import { RateLimiterConfigLive, RateLimiterLive } from "../src/RateLimiter.js"
+import { TelegramBotApiConfigLive, TelegramBotApiContext, TelegramBotApiLive } from "../src/TelegramBotApi.js"
+import { NodeHttpClientLive } from "../src/TelegramBotApiNode.js"
+
+// Start a server on a free port of the loopback interface, closing every connection on release
+const listen = (server: Http.Server) =>
+  Effect.acquireRelease(
+    Effect.async<number>((resume) => {
+      server.listen(0, "127.0.0.1", () => resume(Effect.succeed((server.address() as Net.AddressInfo).port)))
+    }),
+    () =>
+      Effect.async<void>((resume) => {
+        server.closeAllConnections()
+        server.close(() => resume(Effect.void))
+      })
+  )
+
+// A Bot API server answering every request a little later, counting the connections it accepted
+const makeApiServer = Effect.gen(function*() {
+  let connections = 0
+  const server = Http.createServer((_, response) => {
+    setTimeout(() => {
+      response.setHeader("content-type", "application/json")
+      response.end(JSON.stringify({ ok: true, result: { first_name: "Bot", id: 1, is_bot: true } }))
+    }, 50)
+  })
+  server.on("connection", () => connections++)
+  const port = yield* listen(server)
+  return { connections: () => connections, port }
+})
+
+// An HTTP proxy tunneling CONNECT requests, recording their targets
+const makeProxyServer = Effect.gen(function*() {
+  const targets: Array<string> = []
+  const sockets = new Set<Net.Socket>()
+  const server = Http.createServer()
+  server.on("connect", (request: Http.IncomingMessage, socket: Net.Socket, head: Buffer) => {
+    targets.push(request.url ?? "")
+    const [host, port] = (request.url ?? "").split(":")
+    const upstream = Net.connect(Number(port), host, () => {
+      socket.write("HTTP/1.1 200 Connection Established\r\n\r\n")
+      upstream.write(head)
+      upstream.pipe(socket)
+      socket.pipe(upstream)
+    })
+    sockets.add(socket).add(upstream)
+  })
+  yield* Effect.addFinalizer(() => Effect.sync(() => sockets.forEach((socket) => socket.destroy())))
+  const port = yield* listen(server)
+  return { port, targets }
+})
+
+const TelegramBotApiNodeTest = TelegramBotApiLive.pipe(
+  Layer.provide(NodeHttpClientLive),
+  Layer.provide(RateLimiterLive),
+  Layer.provide(RateLimiterConfigLive),
+  Layer.provide(TelegramBotApiConfigLive),
+  Layer.provide(NodeFileSystem.layer)
+)
+
+const withEnv = (env: Record<string, string>) =>
+  Effect.withConfigProvider(ConfigProvider.fromMap(new Map(Object.entries(env))))
+
+describe("TelegramBotApiNode", () => {
+  it.scoped("should keep to TELEGRAM_MAX_CONNECTIONS", () =>
+    Effect.gen(function*() {
+      const apiServer = yield* makeApiServer
+
+      yield* Effect.gen(function*() {
+        const telegramBotApi = yield* TelegramBotApiContext
+        yield* Effect.all(Array.from({ length: 6 }, () => telegramBotApi.getMe()), { concurrency: "unbounded" })
+      }).pipe(
+        Effect.provide(TelegramBotApiNodeTest),
+        withEnv({
+          TELEGRAM_API_BASE_URL: `http://127.0.0.1:${apiServer.port}/bot`,
+          TELEGRAM_BOT_TOKEN: "123:ABC",
+          TELEGRAM_MAX_CONNECTIONS: "2"
+        })
+      )
+
+      expect(apiServer.connections()).toBe(2)
+    }))
+
+  it.scoped("should send requests through TELEGRAM_PROXY_URL", () =>
+    Effect.gen(function*() {
+      const apiServer = yield* makeApiServer
+      const proxyServer = yield* makeProxyServer
+
+      const me = yield* Effect.flatMap(TelegramBotApiContext, (telegramBotApi) => telegramBotApi.getMe()).pipe(
+        Effect.provide(TelegramBotApiNodeTest),
+        withEnv({
+          TELEGRAM_API_BASE_URL: `http://127.0.0.1:${apiServer.port}/bot`,
+          TELEGRAM_BOT_TOKEN: "123:ABC",
+          TELEGRAM_PROXY_URL: `http://127.0.0.1:${proxyServer.port}`
+        })
+      )
+
+      expect(me.first_name).toBe("Bot")
+      expect(proxyServer.targets).toEqual([`127.0.0.1:${apiServer.port}`])
+    }))
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Either, ParseResult, Schema } from "effect"
+import { updateTypes } from "../src/TelegramBotApi.js"
+import { responseSchemas, UpdateSchema } from "../src/TelegramBotApiSchema.js"
+
+const message = {
+  chat: { id: 1, type: "private" },
+  date: 1700000000,
+  from: { first_name: "Ada", id: 2, is_bot: false },
+  message_id: 3,
+  reply_to_message: {
+    chat: { id: 1, type: "private" },
+    date: 1700000000,
+    message_id: 2
+  },
+  text: "hello"
+}
+
+describe("TelegramBotApiSchema", () => {
+  it("should decode a valid update", () => {
+    const result = Schema.decodeUnknownEither(UpdateSchema)({ message, update_id: 1 })
+    expect(Either.isRight(result)).toBe(true)
+  })
+
+  it("should declare every update type", () => {
+    expect(Object.keys(UpdateSchema.fields)).toEqual(["update_id", ...updateTypes])
+  })
+
+  it("should report the path of an invalid field", () => {
+    const result = Schema.decodeUnknownEither(responseSchemas.getUpdates!)([
+      { message: { ...message, reply_to_message: { ...message, chat: { id: "1", type: "private" } } }, update_id: 1 }
+    ])
+    expect(Either.isLeft(result)).toBe(true)
+    if (Either.isLeft(result)) {
+      const [issue] = ParseResult.ArrayFormatter.formatErrorSync(result.left)
+      expect(issue.path).toEqual([0, "message", "reply_to_message", "chat", "id"])
+    }
+  })
+
+  it("should reject an unknown chat member status", () => {
+    const result = Schema.decodeUnknownEither(responseSchemas.getChatMember!)({
+      status: "owner",
+      user: { first_name: "Ada", id: 2, is_bot: false }
+    })
+    expect(Either.isLeft(result)).toBe(true)
+  })
+
+  it("should decode the story returned by postStory rather than a message", () => {
+    const story = { chat: { id: 1, type: "private" }, id: 4 }
+    expect(Schema.decodeUnknownEither(responseSchemas.postStory!)(story)).toEqual(Either.right(story))
+    expect(Either.isLeft(Schema.decodeUnknownEither(responseSchemas.postStory!)(message))).toBe(true)
+  })
+})
@@ -0,0 +1,77 @@
+import { NodeFileSystem } from "@effect/platform-node"
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer } from "effect"
+import { FileDownloaderConfigContext, FileDownloaderContext, FileDownloaderLive } from "../src/FileDownloader.js"
+import { TelegramBotApiContext } from "../src/TelegramBotApi.js"
+import { MockTelegramServerContext, TestTelegramBotApiLive } from "../src/TestTelegramBotApi.js"
+
+describe("TestTelegramBotApi", () => {
+  it.effect("should return queued updates until they are confirmed", () =>
+    Effect.gen(function*() {
+      const server = yield* MockTelegramServerContext
+      const telegramBotApi = yield* TelegramBotApiContext
+
+      yield* server.pushMessage("/start")
+      yield* server.pushMessage("hello")
+
+      const updates = yield* telegramBotApi.getUpdates({})
+      expect(updates.map((update) => update.message?.text)).toEqual(["/start", "hello"])
+      expect(updates[0].message?.entities).toEqual([{ length: 6, offset: 0, type: "bot_command" }])
+
+      const remaining = yield* telegramBotApi.getUpdates({ offset: updates[1].update_id })
+      expect(remaining.map((update) => update.message?.text)).toEqual(["hello"])
+      expect(yield* telegramBotApi.getUpdates({ offset: updates[1].update_id + 1 })).toEqual([])
+    }).pipe(Effect.provide(TestTelegramBotApiLive)))
+
+  it.effect("should record calls and number messages per chat", () =>
+    Effect.gen(function*() {
+      const server = yield* MockTelegramServerContext
+      const telegramBotApi = yield* TelegramBotApiContext
+
+      const received = yield* server.pushMessage("hi")
+      const sent = yield* telegramBotApi.sendMessage({ chat_id: 1, text: "hello" })
+      yield* telegramBotApi.answerCallbackQuery({ callback_query_id: "1" })
+
+      expect(sent.message_id).toBe(received.message_id + 1)
+      expect(sent.from).toEqual(server.bot)
+      expect(yield* server.calls).toEqual([
+        { method: "sendMessage", params: { chat_id: 1, text: "hello" } },
+        { method: "answerCallbackQuery", params: { callback_query_id: "1" } }
+      ])
+    }).pipe(Effect.provide(TestTelegramBotApiLive)))
+
+  it.effect("should edit sent messages like Telegram", () =>
+    Effect.gen(function*() {
+      const server = yield* MockTelegramServerContext
+      const telegramBotApi = yield* TelegramBotApiContext
+
+      const sent = yield* telegramBotApi.sendMessage({ chat_id: 1, text: "one" })
+      yield* telegramBotApi.editMessageText({ chat_id: 1, message_id: sent.message_id, text: "two" })
+      expect((yield* server.sentMessages).map((message) => message.text)).toEqual(["two"])
+
+      const notModified = yield* Effect.flip(
+        telegramBotApi.editMessageText({ chat_id: 1, message_id: sent.message_id, text: "two" })
+      )
+      expect(notModified._tag).toBe("TelegramBotApiMessageNotModifiedError")
+
+      const notFound = yield* Effect.flip(telegramBotApi.editMessageText({ chat_id: 1, message_id: 99, text: "two" }))
+      expect(notFound._tag).toBe("TelegramBotApiMessageToEditNotFoundError")
+    }).pipe(Effect.provide(TestTelegramBotApiLive)))
+
+  it.effect("should serve registered files", () =>
+    Effect.gen(function*() {
+      const server = yield* MockTelegramServerContext
+      const fileDownloader = yield* FileDownloaderContext
+
+      const file = yield* server.addFile("contents")
+      const buffer = yield* fileDownloader.downloadToBuffer(file.file_id)
+
+      expect(new TextDecoder().decode(buffer)).toBe("contents")
+    }).pipe(
+      Effect.provide(FileDownloaderLive.pipe(
+        Layer.provide(Layer.succeed(FileDownloaderConfigContext, { maxFileSize: 1024 })),
+        Layer.provide(NodeFileSystem.layer),
+        Layer.provideMerge(TestTelegramBotApiLive)
+      ))
+    ))
+})
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Context, Effect, Fiber, Layer, Ref, TestClock } from "effect"
+import type { Update } from "../src/TelegramBotApi.js"
+import {
+  UpdateDispatcherConfigContext,
+  UpdateDispatcherContext,
+  UpdateDispatcherLive
+} from "../src/UpdateDispatcher.js"
+import { UpdateHandlerContext } from "../src/UpdateHandler.js"
+
+const makeUpdate = (updateId: number, chatId: number): Update => ({
+  message: {
+    chat: { first_name: "User", id: chatId, type: "private" },
+    date: 0,
+    message_id: updateId,
+    text: String(updateId)
+  },
+  update_id: updateId
+})
+
+// The dispatcher is built in the scope of the test, so its workers keep running between steps.
+// Handler taking longer for the updates of chat 1, recording when each update finishes
+const makeUpdateDispatcherTest = (queueCapacity: number) =>
+  Effect.gen(function*() {
+    const finished = yield* Ref.make<Array<number>>([])
+    const layer = UpdateDispatcherLive.pipe(
+      Layer.provide(Layer.succeed(UpdateDispatcherConfigContext, { maxConcurrency: 10, queueCapacity })),
+      Layer.provide(Layer.succeed(UpdateHandlerContext, {
+        allowedUpdates: Effect.succeed([]),
+        handle: (update) =>
+          Effect.sleep(update.message?.chat.id === 1 ? "2 seconds" : "1 second").pipe(
+            Effect.zipRight(Ref.update(finished, (ids) => [...ids, update.update_id]))
+          )
+      }))
+    )
+    return { finished, layer }
+  })
+
+describe("UpdateDispatcher", () => {
+  it.scoped("should process chats concurrently and each chat in order", () =>
+    Effect.gen(function*() {
+      const { finished, layer } = yield* makeUpdateDispatcherTest(100)
+      const updateDispatcher = Context.get(yield* Layer.build(layer), UpdateDispatcherContext)
+
+      yield* updateDispatcher.dispatch(makeUpdate(1, 1))
+      yield* updateDispatcher.dispatch(makeUpdate(2, 1))
+      yield* updateDispatcher.dispatch(makeUpdate(3, 2))
+
+      yield* TestClock.adjust("1 second")
+      expect(yield* Ref.get(finished)).toEqual([3])
+      // Update 3 is done, but update 1 is not, so nothing can be confirmed yet
+      expect(yield* updateDispatcher.processed).toBe(0)
+
+      yield* TestClock.adjust("1 second")
+      expect(yield* Ref.get(finished)).toEqual([3, 1])
+      expect(yield* updateDispatcher.processed).toBe(1)
+
+      yield* TestClock.adjust("2 seconds")
+      expect(yield* Ref.get(finished)).toEqual([3, 1, 2])
+      expect(yield* updateDispatcher.processed).toBe(3)
+    }))
+
+  it.scoped("should wait for room in the queue before accepting an update", () =>
+    Effect.gen(function*() {
+      const { finished, layer } = yield* makeUpdateDispatcherTest(1)
+      const updateDispatcher = Context.get(yield* Layer.build(layer), UpdateDispatcherContext)
+
+      yield* updateDispatcher.dispatch(makeUpdate(1, 2))
+      const fiber = yield* Effect.fork(updateDispatcher.dispatch(makeUpdate(2, 3)))
+      yield* Effect.yieldNow()
+      expect(fiber.unsafePoll()).toBeNull()
+
+      yield* TestClock.adjust("1 second")
+      yield* Fiber.join(fiber)
+      expect(yield* Ref.get(finished)).toEqual([1])
+
+      yield* TestClock.adjust("1 second")
+      yield* updateDispatcher.awaitIdle
+      expect(yield* Ref.get(finished)).toEqual([1, 2])
+    }))
+})
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "@effect/vitest"
+import { ConfigProvider, Deferred, Effect, Fiber, Layer, Option, Ref, Schedule, TestClock } from "effect"
+import { OffsetStoreContext, OffsetStoreMemoryLive } from "../src/OffsetStore.js"
+import { TelegramBotApiContext } from "../src/TelegramBotApi.js"
+import { MockTelegramServerContext, TestTelegramBotApiLive } from "../src/TestTelegramBotApi.js"
+import { UpdateDispatcherConfigContext, UpdateDispatcherLive } from "../src/UpdateDispatcher.js"
+import { UpdateHandlerAppLive } from "../src/UpdateHandlerApp.js"
+import {
+  type PollingConfig,
+  PollingConfigContext,
+  PollingConfigLive,
+  UpdatePollerContext,
+  UpdatePollerLive
+} from "../src/UpdatePoller.js"
+import { UpdateRouterContext } from "../src/UpdateRouter.js"
+
+const TestPollingConfig: PollingConfig = {
+  allowedUpdates: Option.none(),
+  dropPendingUpdates: false,
+  limit: 100,
+  onConflict: "exit",
+  retryDelay: 10,
+  retryMaxDelay: 100,
+  shutdownTimeout: 10000,
+  timeout: 1
+}
+
+const makeUpdatePollerTest = (pollingConfig: Partial<PollingConfig> = {}) =>
+  UpdatePollerLive.pipe(
+    Layer.provide(Layer.succeed(PollingConfigContext, { ...TestPollingConfig, ...pollingConfig })),
+    Layer.provideMerge(OffsetStoreMemoryLive),
+    Layer.provideMerge(UpdateDispatcherLive),
+    Layer.provide(Layer.succeed(UpdateDispatcherConfigContext, { maxConcurrency: 10, queueCapacity: 100 })),
+    Layer.provideMerge(UpdateHandlerAppLive),
+    Layer.provideMerge(TestTelegramBotApiLive)
+  )
+
+const CONFLICT = "Conflict: terminated by other getUpdates request; make sure that only one bot instance is running"
+
+// Wait for the poller running in the background to reach an offset
+const awaitOffset = (updateId: number) =>
+  Effect.flatMap(OffsetStoreContext, (offsetStore) => offsetStore.get).pipe(
+    Effect.repeat({ schedule: Schedule.spaced("10 millis"), until: (offset) => offset >= updateId }),
+    Effect.timeout("2 seconds")
+  )
+
+describe("UpdatePoller", () => {
+  it.live("should resume after the stored offset", () =>
+    Effect.gen(function*() {
+      const offsetStore = yield* OffsetStoreContext
+      const server = yield* MockTelegramServerContext
+      const updatePoller = yield* UpdatePollerContext
+
+      const first = yield* server.pushUpdate({ message: yield* server.pushMessage("processed before the restart") })
+      yield* server.pushMessage("one")
+      yield* server.pushMessage("two")
+      yield* offsetStore.set(first.update_id)
+
+      const fiber = yield* Effect.fork(updatePoller.run)
+      yield* awaitOffset(first.update_id + 2)
+      yield* Fiber.interrupt(fiber)
+
+      expect((yield* server.sentMessages).map((message) => message.text)).toEqual(["hi", "hi"])
+    }).pipe(Effect.provide(makeUpdatePollerTest())))
+
+  it.live("should let in-flight updates finish on interruption", () =>
+    Effect.gen(function*() {
+      const offsetStore = yield* OffsetStoreContext
+      const server = yield* MockTelegramServerContext
+      const telegramBotApi = yield* TelegramBotApiContext
+      const updatePoller = yield* UpdatePollerContext
+      const updateRouter = yield* UpdateRouterContext
+      const started = yield* Deferred.make<void>()
+
+      yield* updateRouter.on("message", (message) =>
+        Deferred.succeed(started, undefined).pipe(
+          Effect.zipRight(Effect.sleep("100 millis")),
+          Effect.zipRight(telegramBotApi.sendMessage({ chat_id: message.chat.id, text: "done" }))
+        ))
+
+      yield* server.pushMessage("slow")
+      const fiber = yield* Effect.fork(updatePoller.run)
+      yield* Deferred.await(started)
+      yield* Fiber.interrupt(fiber)
+
+      expect((yield* server.sentMessages).map((message) => message.text)).toEqual(["hi", "done"])
+      expect(yield* offsetStore.get).toBe(1)
+    }).pipe(Effect.provide(makeUpdatePollerTest())))
+
+  it.effect("should interrupt in-flight updates after the shutdown timeout", () =>
+    Effect.gen(function*() {
+      const offsetStore = yield* OffsetStoreContext
+      const server = yield* MockTelegramServerContext
+      const updatePoller = yield* UpdatePollerContext
+      const updateRouter = yield* UpdateRouterContext
+      const started = yield* Deferred.make<void>()
+      const interrupted = yield* Ref.make(false)
+
+      yield* updateRouter.on("message", () =>
+        Deferred.succeed(started, undefined).pipe(
+          Effect.zipRight(Effect.never),
+          Effect.onInterrupt(() => Ref.set(interrupted, true))
+        ))
+
+      yield* server.pushMessage("stuck")
+      const fiber = yield* Effect.fork(updatePoller.run)
+      yield* Deferred.await(started)
+      const shutdown = yield* Effect.fork(Fiber.interrupt(fiber))
+      yield* TestClock.adjust("1 second")
+      expect(shutdown.unsafePoll()).toBeNull()
+      yield* TestClock.adjust("1 second")
+      yield* Fiber.join(shutdown)
+
+      expect(yield* Ref.get(interrupted)).toBe(true)
+      // The interrupted update is fetched again after a restart
+      expect(yield* offsetStore.get).toBe(0)
+    }).pipe(Effect.provide(makeUpdatePollerTest({ shutdownTimeout: 2000 }))))
+
+  it.live("should exit on a conflict with another instance", () =>
+    Effect.gen(function*() {
+      const server = yield* MockTelegramServerContext
+      const updatePoller = yield* UpdatePollerContext
+
+      yield* server.failNextCall("getUpdates", 409, CONFLICT)
+      const error = yield* Effect.flip(updatePoller.run)
+
+      expect(error._tag).toBe("TelegramBotApiConflictError")
+    }).pipe(Effect.provide(makeUpdatePollerTest())))
+
+  it.live("should wait for a conflicting instance to go away", () =>
+    Effect.gen(function*() {
+      const server = yield* MockTelegramServerContext
+      const updatePoller = yield* UpdatePollerContext
+
+      yield* server.failNextCall("getUpdates", 409, CONFLICT)
+      yield* server.failNextCall("getUpdates", 409, CONFLICT)
+      yield* server.pushMessage("after the conflict")
+      const fiber = yield* Effect.fork(updatePoller.run)
+      yield* awaitOffset(1)
+      yield* Fiber.interrupt(fiber)
+
+      const calls = yield* server.calls
+      expect(calls.filter((call) => call.method === "getUpdates").length).toBeGreaterThanOrEqual(3)
+      expect((yield* server.sentMessages).map((message) => message.text)).toEqual(["hi"])
+    }).pipe(Effect.provide(makeUpdatePollerTest({ onConflict: "wait" }))))
+
+  it.live("should drop pending updates on start", () =>
+    Effect.gen(function*() {
+      const server = yield* MockTelegramServerContext
+      const updatePoller = yield* UpdatePollerContext
+
+      yield* server.pushMessage("sent while the bot was down")
+      const fiber = yield* Effect.fork(updatePoller.run)
+      yield* server.pushMessage("sent after the start").pipe(Effect.delay("100 millis"))
+      yield* awaitOffset(2)
+      yield* Fiber.interrupt(fiber)
+
+      expect((yield* server.sentMessages).map((message) => message.text)).toEqual(["hi"])
+    }).pipe(Effect.provide(makeUpdatePollerTest({ dropPendingUpdates: true }))))
+
+  it.effect("should accept every update type as allowed update", () =>
+    Effect.gen(function*() {
+      const loadAllowedUpdates = (allowedUpdates: string) =>
+        PollingConfigContext.pipe(
+          Effect.map((pollingConfig) => pollingConfig.allowedUpdates),
+          Effect.provide(PollingConfigLive),
+          Effect.withConfigProvider(
+            ConfigProvider.fromMap(new Map([["TELEGRAM_POLLING_ALLOWED_UPDATES", allowedUpdates]]))
+          )
+        )
+
+      expect(yield* loadAllowedUpdates("message,pre_checkout_query,poll_answer")).toEqual(
+        Option.some(["message", "pre_checkout_query", "poll_answer"])
+      )
+      const error = yield* Effect.flip(loadAllowedUpdates("message,unknown_update"))
+      expect(String(error)).toContain("Must be an update type")
+    }))
+})
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+import type { Message } from "../src/TelegramBotApi.js"
+import { UpdateRouterContext, UpdateRouterLive } from "../src/UpdateRouter.js"
+
+const message: Message = {
+  chat: { id: 1, type: "private" },
+  date: 0,
+  message_id: 1,
+  text: "hello"
+}
+
+describe("UpdateRouter", () => {
+  it.effect("should compute allowed updates from registered handlers", () =>
+    Effect.gen(function*() {
+      const updateRouter = yield* UpdateRouterContext
+
+      expect(yield* updateRouter.allowedUpdates).toEqual([])
+
+      yield* updateRouter.on("message", () => Effect.void)
+      yield* updateRouter.on("callback_query", () => Effect.void)
+      yield* updateRouter.on("message", () => Effect.void)
+
+      expect(yield* updateRouter.allowedUpdates).toEqual(["message", "callback_query"])
+    }).pipe(Effect.provide(UpdateRouterLive)))
+
+  it.effect("should route each update to the handlers of its type in order", () =>
+    Effect.gen(function*() {
+      const updateRouter = yield* UpdateRouterContext
+      const calls: Array<string> = []
+
+      yield* updateRouter.on("message", (payload) => Effect.sync(() => calls.push(`first:${payload.text}`)))
+      yield* updateRouter.on("message", (payload) => Effect.sync(() => calls.push(`second:${payload.text}`)))
+      yield* updateRouter.on("edited_message", (payload) => Effect.sync(() => calls.push(`edited:${payload.text}`)))
+
+      yield* updateRouter.route({ message, update_id: 1 })
+      yield* updateRouter.route({ edited_message: { ...message, text: "edit" }, update_id: 2 })
+      // Updates without a handler are ignored
+      yield* updateRouter.route({ poll_answer: { option_ids: [], poll_id: "1" }, update_id: 3 })
+
+      expect(calls).toEqual(["first:hello", "second:hello", "edited:edit"])
+    }).pipe(Effect.provide(UpdateRouterLive)))
+})